@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "admin_logs" ALTER COLUMN "adminUserId" DROP NOT NULL;
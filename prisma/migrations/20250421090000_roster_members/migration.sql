@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "roster_members" (
+    "id" TEXT NOT NULL,
+    "name" TEXT,
+    "email" TEXT NOT NULL,
+    "activityCount" INTEGER NOT NULL DEFAULT 0,
+    "role" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "roster_members_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "roster_members_email_key" ON "roster_members"("email");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "activity_snapshots" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "memberEmail" TEXT NOT NULL,
+    "memberName" TEXT,
+    "role" TEXT,
+    "activityCount" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "belowThreshold" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_snapshots_runId_idx" ON "activity_snapshots"("runId");
+
+-- CreateIndex
+CREATE INDEX "activity_snapshots_memberEmail_createdAt_idx" ON "activity_snapshots"("memberEmail", "createdAt");
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "RewarnMode" AS ENUM ('FOREVER', 'COOLDOWN', 'TERM');
+
+-- CreateTable
+CREATE TABLE "rewarn_policies" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "mode" "RewarnMode" NOT NULL DEFAULT 'FOREVER',
+    "cooldownDays" INTEGER NOT NULL DEFAULT 30,
+    "termName" TEXT,
+    "termStartsAt" TIMESTAMP(3),
+    "blockingStatuses" "EmailStatus"[] DEFAULT ARRAY['SENT', 'CANCELED']::"EmailStatus"[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rewarn_policies_pkey" PRIMARY KEY ("id")
+);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "warning_logs" ADD COLUMN     "stage" INTEGER NOT NULL DEFAULT 1;
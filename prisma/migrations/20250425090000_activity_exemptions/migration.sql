@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "activity_exemptions" (
+    "id" TEXT NOT NULL,
+    "memberEmail" TEXT NOT NULL,
+    "memberName" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdByEmail" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_exemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_exemptions_memberEmail_idx" ON "activity_exemptions"("memberEmail");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "activity_check_runs" (
+    "id" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "triggeredBy" TEXT NOT NULL,
+    "triggeredById" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "message" TEXT NOT NULL,
+    "checkedCount" INTEGER NOT NULL DEFAULT 0,
+    "belowThresholdCount" INTEGER NOT NULL DEFAULT 0,
+    "flaggedCount" INTEGER NOT NULL DEFAULT 0,
+    "escalatedCount" INTEGER NOT NULL DEFAULT 0,
+    "exemptedCount" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" JSONB,
+
+    CONSTRAINT "activity_check_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "activity_check_runs_startedAt_idx" ON "activity_check_runs"("startedAt");
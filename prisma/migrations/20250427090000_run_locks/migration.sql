@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "run_locks" (
+    "name" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "holder" TEXT NOT NULL,
+    "acquiredAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "run_locks_pkey" PRIMARY KEY ("name")
+);
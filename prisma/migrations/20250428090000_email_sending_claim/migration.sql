@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "EmailStatus" ADD VALUE 'SENDING' AFTER 'APPROVED';
+
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "claimedAt" TIMESTAMP(3);
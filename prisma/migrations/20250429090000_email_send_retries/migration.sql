@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "attemptCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastError" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3);
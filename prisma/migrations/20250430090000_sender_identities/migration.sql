@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "SenderScope" AS ENUM ('DEFAULT', 'ROLE', 'TEMPLATE');
+
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "fromAddress" TEXT,
+ADD COLUMN     "fromName" TEXT,
+ADD COLUMN     "replyTo" TEXT;
+
+-- CreateTable
+CREATE TABLE "sender_identities" (
+    "id" TEXT NOT NULL,
+    "scope" "SenderScope" NOT NULL,
+    "scopeValue" TEXT NOT NULL DEFAULT '',
+    "fromName" TEXT NOT NULL,
+    "fromAddress" TEXT NOT NULL,
+    "replyTo" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sender_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sender_identities_scope_scopeValue_key" ON "sender_identities"("scope", "scopeValue");
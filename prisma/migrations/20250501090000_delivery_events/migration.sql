@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "DeliveryStatus" AS ENUM ('DELIVERY_DELAYED', 'DELIVERED', 'BOUNCED', 'COMPLAINED');
+
+-- CreateEnum
+CREATE TYPE "SuppressionReason" AS ENUM ('BOUNCED', 'COMPLAINED');
+
+-- AlterTable
+ALTER TABLE "warning_logs" ADD COLUMN     "deliveryStatus" "DeliveryStatus";
+
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "deliveryDetail" TEXT,
+ADD COLUMN     "deliveryEventAt" TIMESTAMP(3),
+ADD COLUMN     "deliveryStatus" "DeliveryStatus";
+
+-- CreateTable
+CREATE TABLE "email_suppressions" (
+    "email" TEXT NOT NULL,
+    "reason" "SuppressionReason" NOT NULL,
+    "detail" TEXT,
+    "sourceEmailQueueId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_suppressions_pkey" PRIMARY KEY ("email")
+);
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "webhook_events" (
+    "id" TEXT NOT NULL,
+    "svixId" TEXT,
+    "eventType" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+    "processCount" INTEGER NOT NULL DEFAULT 0,
+    "outcomeStatus" INTEGER,
+    "outcomeMessage" TEXT,
+
+    CONSTRAINT "webhook_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webhook_events_svixId_key" ON "webhook_events"("svixId");
+
+-- CreateIndex
+CREATE INDEX "webhook_events_receivedAt_idx" ON "webhook_events"("receivedAt");
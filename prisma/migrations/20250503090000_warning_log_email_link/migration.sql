@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "warning_logs" ADD COLUMN     "emailQueueId" TEXT;
+
+-- Backfill: a warning and its email were written in the same transaction, so pair each
+-- warning with the email for the same recipient and template created closest to it
+-- (within a minute). Each email is linked to at most one warning.
+WITH "candidates" AS (
+    SELECT w."id" AS "warningId",
+           e."id" AS "emailQueueId",
+           ABS(EXTRACT(EPOCH FROM (e."createdAt" - w."createdAt"))) AS "gap"
+    FROM "warning_logs" w
+    JOIN "email_queue" e
+      ON e."recipientEmail" = w."recipientEmail"
+     AND e."template" = w."templateUsed"
+    WHERE ABS(EXTRACT(EPOCH FROM (e."createdAt" - w."createdAt"))) < 60
+), "closestPerWarning" AS (
+    SELECT DISTINCT ON ("warningId") "warningId", "emailQueueId", "gap"
+    FROM "candidates"
+    ORDER BY "warningId", "gap"
+), "closestPerEmail" AS (
+    SELECT DISTINCT ON ("emailQueueId") "warningId", "emailQueueId"
+    FROM "closestPerWarning"
+    ORDER BY "emailQueueId", "gap"
+)
+UPDATE "warning_logs" w
+SET "emailQueueId" = c."emailQueueId"
+FROM "closestPerEmail" c
+WHERE w."id" = c."warningId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "warning_logs_emailQueueId_key" ON "warning_logs"("emailQueueId");
+
+-- AddForeignKey
+ALTER TABLE "warning_logs" ADD CONSTRAINT "warning_logs_emailQueueId_fkey" FOREIGN KEY ("emailQueueId") REFERENCES "email_queue"("id") ON DELETE SET NULL ON UPDATE CASCADE;
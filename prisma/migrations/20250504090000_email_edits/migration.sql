@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "editedBy" TEXT,
+ADD COLUMN     "originalBodyHtml" TEXT,
+ADD COLUMN     "originalSubject" TEXT,
+ADD COLUMN     "templateVariables" JSONB;
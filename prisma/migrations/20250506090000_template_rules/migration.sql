@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "TemplateRuleMatch" AS ENUM ('ROLE', 'TAG');
+
+-- AlterTable
+ALTER TABLE "roster_members" ADD COLUMN     "tags" TEXT;
+
+-- CreateTable
+CREATE TABLE "template_rules" (
+    "id" TEXT NOT NULL,
+    "matchType" "TemplateRuleMatch" NOT NULL,
+    "matchValue" TEXT NOT NULL,
+    "templateIdentifier" TEXT NOT NULL,
+    "precedence" INTEGER NOT NULL DEFAULT 100,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "template_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_rules_matchType_matchValue_key" ON "template_rules"("matchType", "matchValue");
+
+-- Seed the role spellings that used to be hard-coded in the activity check
+INSERT INTO "template_rules" ("id", "matchType", "matchValue", "templateIdentifier", "precedence", "updatedAt")
+SELECT gen_random_uuid()::text, 'ROLE', "matchValue", "templateIdentifier", 100, CURRENT_TIMESTAMP
+FROM (VALUES
+    ('co-directors', 'low_activity_co_director'),
+    ('co director', 'low_activity_co_director'),
+    ('co-director', 'low_activity_co_director'),
+    ('senior executives', 'low_activity_senior_executive'),
+    ('senior executive', 'low_activity_senior_executive'),
+    ('executives', 'low_activity_executive'),
+    ('executive', 'low_activity_executive'),
+    ('junior executives', 'low_activity_junior_executive'),
+    ('junior executive', 'low_activity_junior_executive'),
+    ('new recruits', 'low_activity_new_recruit'),
+    ('new recruit', 'low_activity_new_recruit'),
+    ('general members', 'low_activity_general_member'),
+    ('general member', 'low_activity_general_member'),
+    ('member', 'low_activity_general_member')
+) AS "defaults"("matchValue", "templateIdentifier");
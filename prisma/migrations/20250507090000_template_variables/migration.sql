@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN     "variables" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- Declare what each template already uses, as detectTemplateVariables does: every {{variable}}
+-- or {{#if variable}} naming a variable in TEMPLATE_VARIABLE_SCHEMA. Untouched default templates
+-- then match their files and don't show as modified.
+UPDATE "email_templates" SET "variables" = ARRAY(
+    SELECT DISTINCT "match"[1]
+    FROM regexp_matches("mjml", '\{\{\s*(?:#if\s+)?([A-Za-z][A-Za-z0-9]*)\s*\}\}', 'g') AS "match"
+    WHERE "match"[1] IN ('name', 'activityCount', 'threshold', 'role', 'deficit', 'portalUrl', 'panelContact', 'termName')
+);
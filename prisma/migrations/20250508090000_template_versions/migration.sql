@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "email_queue" ADD COLUMN     "templateVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN     "currentVersionId" TEXT;
+
+-- AlterTable
+ALTER TABLE "warning_logs" ADD COLUMN     "templateVersionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "email_template_versions" (
+    "id" TEXT NOT NULL,
+    "identifier" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "mjml" TEXT NOT NULL,
+    "variables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdBy" TEXT,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "email_template_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_template_versions_identifier_version_key" ON "email_template_versions"("identifier", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "email_templates_currentVersionId_key" ON "email_templates"("currentVersionId");
+
+-- AddForeignKey
+ALTER TABLE "warning_logs" ADD CONSTRAINT "warning_logs_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "email_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_queue" ADD CONSTRAINT "email_queue_templateVersionId_fkey" FOREIGN KEY ("templateVersionId") REFERENCES "email_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "email_templates" ADD CONSTRAINT "email_templates_currentVersionId_fkey" FOREIGN KEY ("currentVersionId") REFERENCES "email_template_versions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Each existing template becomes version 1 of its history. Emails queued so far
+-- can't be matched to a version reliably, so their templateVersionId stays null.
+INSERT INTO "email_template_versions" ("id", "identifier", "version", "mjml", "variables", "createdBy", "note", "createdAt")
+SELECT gen_random_uuid()::text, "identifier", 1, "mjml", "variables", "updatedBy", 'Version in use when history started', "updatedAt"
+FROM "email_templates";
+
+UPDATE "email_templates" t
+SET "currentVersionId" = v."id"
+FROM "email_template_versions" v
+WHERE v."identifier" = t."identifier" AND v."version" = 1;
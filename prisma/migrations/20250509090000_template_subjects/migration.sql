@@ -0,0 +1,38 @@
+-- AlterTable
+ALTER TABLE "email_template_versions" ADD COLUMN     "preheader" TEXT,
+ADD COLUMN     "subject" TEXT NOT NULL DEFAULT 'Club Activity Alert for {{name}}';
+
+-- AlterTable
+ALTER TABLE "email_templates" ADD COLUMN     "preheader" TEXT,
+ADD COLUMN     "subject" TEXT NOT NULL DEFAULT 'Club Activity Alert for {{name}}';
+
+-- Until now the subject came from the escalation stage, so record the ones each template was actually sent with
+UPDATE "email_templates" SET "subject" = 'Formal Activity Warning for {{name}}' WHERE "identifier" = 'low_activity_formal_warning';
+UPDATE "email_templates" SET "subject" = 'Final Notice: Club Activity for {{name}}' WHERE "identifier" = 'low_activity_final_notice';
+UPDATE "email_template_versions" SET "subject" = 'Formal Activity Warning for {{name}}' WHERE "identifier" = 'low_activity_formal_warning';
+UPDATE "email_template_versions" SET "subject" = 'Final Notice: Club Activity for {{name}}' WHERE "identifier" = 'low_activity_final_notice';
+
+ALTER TABLE "email_templates" ALTER COLUMN "subject" DROP DEFAULT;
+ALTER TABLE "email_template_versions" ALTER COLUMN "subject" DROP DEFAULT;
+
+-- Default templates nobody has edited get their role-specific subject as a new version
+-- (keep in sync with DEFAULT_TEMPLATE_SUBJECTS in src/lib/emailTemplates.ts)
+INSERT INTO "email_template_versions" ("id", "identifier", "version", "mjml", "subject", "preheader", "variables", "createdBy", "note", "createdAt")
+SELECT gen_random_uuid()::text, t."identifier",
+       COALESCE((SELECT MAX(v."version") FROM "email_template_versions" v WHERE v."identifier" = t."identifier"), 0) + 1,
+       t."mjml", s."subject", t."preheader", t."variables", NULL, 'Default subject', CURRENT_TIMESTAMP
+FROM "email_templates" t
+JOIN (VALUES
+    ('low_activity_co_director', 'Director Activity Review for {{name}}'),
+    ('low_activity_senior_executive', 'Senior Executive Activity Check for {{name}}'),
+    ('low_activity_executive', 'Executive Activity Reminder for {{name}}'),
+    ('low_activity_junior_executive', 'Junior Executive Engagement for {{name}}'),
+    ('low_activity_new_recruit', 'Getting Started at the Club, {{name}}'),
+    ('low_activity_general_member', 'Club Activity Check-in for {{name}}')
+) AS s("identifier", "subject") ON s."identifier" = t."identifier"
+WHERE t."updatedBy" IS NULL;
+
+UPDATE "email_templates" t
+SET "subject" = v."subject", "currentVersionId" = v."id", "updatedAt" = CURRENT_TIMESTAMP
+FROM "email_template_versions" v
+WHERE v."identifier" = t."identifier" AND v."note" = 'Default subject' AND t."updatedBy" IS NULL;
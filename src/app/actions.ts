@@ -1,375 +1,52 @@
 'use server';
 
 import { prisma } from '@/lib/prisma';
-import { getSheetData } from '@/lib/googleSheets';
-import { EmailStatus, Role, RoleThreshold, WarningLog, AdminLog, Prisma } from '@prisma/client';
-import { sendEmail } from '@/lib/resend';
-import { CreateEmailResponse } from 'resend';
+import { EmailStatus, Role, RoleThreshold, WarningLog, AdminLog, Prisma, RewarnMode, ActivityExemption, ActivityCheckRun, SenderIdentity, SenderScope, EmailSuppression, WebhookEvent, TemplateRule, TemplateRuleMatch } from '@prisma/client';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { revalidatePath } from 'next/cache';
-import { triggerPusherEvent } from '@/lib/pusher';
-// Import necessary modules for MJML rendering
-import mjml from 'mjml';
-import fs from 'fs/promises';
-import path from 'path';
-
-// Define the expected structure for a row from the Google Sheet
-// Adjust indices based on your actual column order
-const COLUMN_INDICES = {
-  NAME: 0,
-  EMAIL: 1,
-  ACTIVITY_COUNT: 2,
-  ROLE: 3,           // Role is now index 3 (Column D)
-};
-
-interface ClubMemberData {
-  name: string;
-  email: string;
-  activityCount: number;
-  role?: string; // Role is now mandatory based on new structure, but keep optional for safety
-  rowIndex: number; // Original row index for reference/debugging
-}
-
-// Define structure for sheet errors
-interface SheetError {
-    rowIndex: number;
-    reason: string;
-    rowData: (string | number | boolean | null)[]; // Store the raw row data
-}
-
-// Define the default global activity threshold (can be overridden by role)
-const DEFAULT_ACTIVITY_THRESHOLD = 5;
-// Define the range to read from the sheet via environment variable
-const sheetMemberDataRange = process.env.GOOGLE_SHEET_MEMBER_DATA_RANGE;
-// *** IMPORTANT: Update this range based on your actual sheet name and data columns ***
-// const SHEET_RANGE = 'Sheet1!A2:F'; // <-- Removed hardcoded value
-
-// --- Helper Function: Get Template Info based on Role --- 
-function getTemplateInfo(role?: string): { filename: string; identifier: string } {
-  const normalizedRole = (role || '').trim().toLowerCase();
-
-  // Case-insensitive matching for roles
-  switch (normalizedRole) {
-    case 'co-directors':
-    case 'co director': // Handle variations
-    case 'co-director':
-      return { filename: 'low_activity_co_director.mjml', identifier: 'low_activity_co_director' };
-    case 'senior executives':
-    case 'senior executive':
-      return { filename: 'low_activity_senior_executive.mjml', identifier: 'low_activity_senior_executive' };
-    case 'executives':
-    case 'executive':
-      return { filename: 'low_activity_executive.mjml', identifier: 'low_activity_executive' };
-    case 'junior executives':
-    case 'junior executive':
-      return { filename: 'low_activity_junior_executive.mjml', identifier: 'low_activity_junior_executive' };
-    case 'new recruits':
-    case 'new recruit':
-      return { filename: 'low_activity_new_recruit.mjml', identifier: 'low_activity_new_recruit' };
-    case 'general members':
-    case 'general member':
-    case 'member': // Common variation
-       return { filename: 'low_activity_general_member.mjml', identifier: 'low_activity_general_member' };
-    // TODO: Add cases for Personality Tags if needed, maybe with precedence logic
-    // case 'introvert': etc...
-    default:
-      // Fallback to general member template if role is missing, empty, or doesn't match
-      console.log(`Role '${role}' not matched or empty, defaulting to general member template.`);
-      return { filename: 'low_activity_general_member.mjml', identifier: 'low_activity_general_member' };
-  }
-}
-// --- End Helper Function ---
+import { triggerPusherEvent, ADMIN_CHANNEL, EMAIL_QUEUE_EVENT } from '@/lib/pusher';
+import { runActivityCheck, ActivityCheckResult, DEFAULT_ACTIVITY_THRESHOLD } from '@/lib/activityCheck';
+import { runEmailQueue, EmailQueueResult, getMaxSendAttempts, parseScheduledAt } from '@/lib/emailQueue';
+import { getRosterCell, parseActivityCount, parseTags, RosterError, ClubMemberData, SheetError } from '@/lib/roster';
+import { loadRoster } from '@/lib/rosterProviders';
+import { findActiveExemption, parseExemptionDate } from '@/lib/exemptions';
+import { normalizeScopeValue } from '@/lib/senderIdentity';
+import { normalizeMatchValue, sortTemplateRules } from '@/lib/templateRules';
+import { compileTemplate, saveTemplateVersion, fillTemplateVariables, TemplateVariables, StoredTemplateVariables, buildTemplateVariables, loadTemplateContext, validateTemplate, getDefaultTemplateContent, readDefaultTemplate, seedDefaultTemplates, isValidTemplateIdentifier, SAMPLE_TEMPLATE_VARIABLES, TEMPLATE_VARIABLE_SCHEMA, TemplateVariableDefinition, TemplateValidationError, TemplateContent, listTemplateIdentifiers } from '@/lib/emailTemplates';
+import { replayWebhookEvent } from '@/lib/resendWebhook';
+import { diffLines, DiffLine } from '@/lib/textDiff';
+import { getRewarnPolicy, describeRewarnPolicy, RewarnPolicySettings, REWARN_POLICY_ID, CONFIGURABLE_BLOCKING_STATUSES } from '@/lib/rewarnPolicy';
 
 // --- Constants for Pusher --- 
-const ADMIN_CHANNEL = 'admin-updates';
-const EMAIL_QUEUE_EVENT = 'email-queue-updated';
 const THRESHOLDS_EVENT = 'thresholds-updated';
 // --- End Constants --- 
 
-export async function checkMemberActivity(): Promise<{
-    success: boolean;
-    message: string;
-    checked?: number;
-    flagged?: number;
-    errors?: number;
-    errorsList?: SheetError[]; // <-- Added errorsList
-}> {
-  console.log("Starting member activity check...");
-
+export async function checkMemberActivity(): Promise<ActivityCheckResult> {
   // --- Authorization Check --- 
   const session = await getServerSession(authOptions);
-  if (!session || session.user?.role !== Role.PANEL) {
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
       console.warn('Unauthorized attempt to run checkMemberActivity. User:', session?.user?.email);
       return { success: false, message: "Unauthorized: You do not have permission to perform this action." };
   }
   console.log(`Authorized user ${session.user.email} is performing activity check.`);
   // --- End Authorization Check ---
 
-  // Check if the range is configured
-  if (!sheetMemberDataRange) {
-    console.error("GOOGLE_SHEET_MEMBER_DATA_RANGE environment variable is not set.");
-    return { success: false, message: "Member data sheet range is not configured." };
-  }
-
-  let checkedCount = 0;
-  let flaggedCount = 0;
-  let belowThresholdCount = 0;
-  let errorCount = 0;
-  const errorsList: SheetError[] = [];
-  const roleThresholds: Map<string, number> = new Map();
-
-  try {
-    // --- Fetch Role Thresholds from DB --- 
-    console.log("Fetching role-specific thresholds from database...");
-    const thresholdsFromDb = await prisma.roleThreshold.findMany();
-    thresholdsFromDb.forEach(rt => {
-      roleThresholds.set(rt.roleName.toLowerCase(), rt.threshold);
-    });
-    console.log("Fetched role-specific thresholds:", Object.fromEntries(roleThresholds));
-    // --- End Fetch Thresholds ---
-
-    const rawData = await getSheetData(sheetMemberDataRange);
-
-    if (rawData === null) {
-      return { success: false, message: "Failed to fetch data from Google Sheet." };
-    }
-
-    if (rawData.length === 0) {
-        return { success: true, message: "No member data found in the specified range.", checked: 0, flagged: 0, errors: 0, errorsList: [] };
-    }
-
-    console.log(`Fetched ${rawData.length} rows from sheet.`);
-    checkedCount = rawData.length;
-
-    const membersToProcess: ClubMemberData[] = [];
-
-    // --- Data Parsing and Validation ---
-    rawData.forEach((row, index) => {
-      const rowIndex = index + 2; // Sheet rows are 1-based, data starts at row 2
-      const emailValue = row[COLUMN_INDICES.EMAIL];
-      const activityCountValue = row[COLUMN_INDICES.ACTIVITY_COUNT];
-      const nameValue = row[COLUMN_INDICES.NAME];
-      const roleValue = row[COLUMN_INDICES.ROLE];
-
-      // Validate email
-      if (typeof emailValue !== 'string' || !emailValue) {
-        const reason = "Invalid or missing email (Column B).";
-        console.warn(`Skipping row ${rowIndex}: ${reason}`);
-        errorsList.push({ rowIndex, reason, rowData: row }); // <-- Add error to list
-        errorCount++;
-        return; // Skip this row
-      }
-      const email = emailValue;
-
-      // Validate activity count
-      if (activityCountValue === undefined || activityCountValue === null) {
-         const reason = "Missing activity count (Column C).";
-         console.warn(`Skipping row ${rowIndex}: ${reason}`);
-         errorsList.push({ rowIndex, reason, rowData: row }); // <-- Add error to list
-         errorCount++;
-         return; // Skip this row
-      }
-      let countStr: string;
-      if (typeof activityCountValue === 'number') {
-        countStr = String(activityCountValue);
-      } else if (typeof activityCountValue === 'string') {
-        countStr = activityCountValue;
-      } else {
-          const reason = `Invalid activity count type '${typeof activityCountValue}' value '${activityCountValue}' (Column C).`;
-          console.warn(`Skipping row ${rowIndex}: ${reason}`);
-          errorsList.push({ rowIndex, reason, rowData: row }); // <-- Add error to list
-          errorCount++;
-          return; // Skip this row
-      }
-      const activityCount = parseInt(countStr, 10);
-      if (isNaN(activityCount)) {
-        const reason = `Invalid activity count value (parsed from '${countStr}') (Column C).`;
-        console.warn(`Skipping row ${rowIndex}: ${reason}`);
-        errorsList.push({ rowIndex, reason, rowData: row }); // <-- Add error to list
-        errorCount++;
-        return; // Skip this row
-      }
-
-      // Process name
-      const name = typeof nameValue === 'string' ? nameValue : '';
-
-      // Process role: Now expected in column D (index 3)
-      const role = typeof roleValue === 'string' ? roleValue : undefined;
-      // Log if role is missing, as it's now more critical
-      if (!role) {
-         // This is a warning, not necessarily an error preventing processing, unless a role is strictly required later
-         console.warn(`Row ${rowIndex}: Missing role value (Column D) (used for template selection).`);
-         // Decide if you want to add this to errorsList or just log
-         // errorsList.push({ rowIndex, reason: "Missing role (Column D).", rowData: row });
-         // errorCount++; // Optionally count this as an error
-      }
-
-      // Add validated data to the list
-      membersToProcess.push({
-        name: name,
-        email: email,
-        activityCount: activityCount,
-        role: role, // Keep original role casing for display/template lookup if needed
-        rowIndex: rowIndex
-      });
-    });
-
-    console.log(`Parsed ${membersToProcess.length} valid members out of ${checkedCount} rows checked. Found ${errorCount} errors.`);
-
-    let successfullyQueuedCount = 0; // Track if any emails were actually queued
-
-    // --- Threshold Check and DB Operations ---
-    for (const member of membersToProcess) {
-      // --- Determine Threshold --- 
-      const memberRoleLower = (member.role || '').trim().toLowerCase();
-      const specificThreshold = roleThresholds.get(memberRoleLower);
-      const effectiveThreshold = specificThreshold !== undefined ? specificThreshold : DEFAULT_ACTIVITY_THRESHOLD;
-      // Log which threshold is being applied
-      // console.log(`Checking ${member.email} (Role: ${member.role}, Activity: ${member.activityCount}) against threshold: ${effectiveThreshold} ${specificThreshold !== undefined ? '(Role Specific)' : '(Default)'}`);
-      // --- End Determine Threshold --- 
-
-      if (member.activityCount < effectiveThreshold) { // <-- Use effectiveThreshold
-        belowThresholdCount++;
-
-        // ---> Check for existing QUEUED, APPROVED, CANCELED, or SENT email for this recipient <--- 
-        const existingNonFailedEmail = await prisma.emailQueue.findFirst({
-          where: {
-            recipientEmail: member.email,
-            status: {
-              // Include CANCELED and SENT in the statuses to check
-              in: [
-                EmailStatus.QUEUED,
-                EmailStatus.APPROVED,
-                EmailStatus.CANCELED,
-                EmailStatus.SENT 
-              ] 
-            }
-          },
-          select: { id: true, status: true } // Get status for logging
-        });
-
-        if (existingNonFailedEmail) {
-          console.log(`Skipping email for ${member.email}. An email is already pending, was canceled, or was sent (ID: ${existingNonFailedEmail.id}, Status: ${existingNonFailedEmail.status}).`);
-          continue; // Skip to the next member
-        }
-        // ---> End Check <--- 
-
-        // Only proceed if no QUEUED, APPROVED, CANCELED, or SENT email was found
-        flaggedCount++;
-        console.log(`Flagging member: ${member.email} (Activity: ${member.activityCount}) using template: ${getTemplateInfo(member.role).identifier}`);
-
-        // --- Determine and Load Specific Template --- 
-        const { filename: templateFilename, identifier: templateIdentifier } = getTemplateInfo(member.role);
-        let mjmlTemplateContent = '';
-        let renderedHtml = '';
-        
-        try {
-          const templatePath = path.join(process.cwd(), 'src', 'emails', templateFilename);
-          mjmlTemplateContent = await fs.readFile(templatePath, 'utf-8');
-          console.log(`Loaded template '${templateFilename}' for ${member.email} (Role: ${member.role})`);
-        } catch (templateError) {
-          const reason = `Failed to load template '${templateFilename}' for role '${member.role}'.`;
-          console.error(`${reason} (Row ${member.rowIndex}):`, templateError);
-          errorsList.push({ rowIndex: member.rowIndex, reason, rowData: [member.name, member.email, member.activityCount, member.role ?? null] });
-          errorCount++;
-          continue;
-        }
-        // --- End Load --- 
-
-        // Only proceed if template content was loaded
-        if (!mjmlTemplateContent) {
-          console.warn(`Skipping DB entry for ${member.email} due to missing template content for '${templateFilename}'.`);
-          continue;
-        }
-
-        const emailSubject = `Club Activity Alert for ${member.name || 'Member'}`;
-        
-        try {
-            // Personalize the loaded MJML template
-            const personalizedMjml = mjmlTemplateContent
-                .replace(/{{name}}/g, member.name || 'Member')
-                .replace(/{{activityCount}}/g, member.activityCount.toString())
-                .replace(/{{threshold}}/g, effectiveThreshold.toString());
-
-            // Render MJML to HTML
-            const { html, errors: mjmlErrors } = mjml(personalizedMjml, {});
-
-            if (mjmlErrors.length > 0) {
-                const reason = `MJML rendering errors for template ${templateIdentifier}.`;
-                console.warn(`${reason} (Row ${member.rowIndex}):`, mjmlErrors);
-                errorsList.push({ rowIndex: member.rowIndex, reason: `${reason} First error: ${mjmlErrors[0].formattedMessage}`, rowData: [member.name, member.email, member.activityCount, member.role ?? null] });
-                errorCount++;
-                continue;
-            }
-            renderedHtml = html;
-
-        } catch (renderError) {
-            const reason = `Error rendering template '${templateIdentifier}'.`;
-            console.error(`${reason} (Row ${member.rowIndex}):`, renderError);
-            errorsList.push({ rowIndex: member.rowIndex, reason, rowData: [member.name, member.email, member.activityCount, member.role ?? null] });
-            errorCount++;
-            continue;
-        }
-        
-        if (!renderedHtml) { 
-            console.warn(`Skipping DB entry for ${member.email} due to empty rendered HTML from template '${templateIdentifier}'.`);
-            continue;
-        }
-
-        try {
-          // Use Prisma transaction 
-          await prisma.$transaction([
-            prisma.emailQueue.create({
-              data: {
-                recipientEmail: member.email,
-                recipientName: member.name,
-                subject: emailSubject,
-                bodyHtml: renderedHtml, 
-                template: templateIdentifier,
-                status: EmailStatus.QUEUED,
-              },
-            }),
-            prisma.warningLog.create({
-              data: {
-                recipientEmail: member.email,
-                recipientName: member.name,
-                activityCount: member.activityCount,
-                threshold: effectiveThreshold, // <-- Store the ACTUAL threshold used
-                templateUsed: templateIdentifier,
-                status: EmailStatus.QUEUED, 
-              },
-            }),
-          ]);
-          successfullyQueuedCount++; // Increment counter on successful DB operation
-          console.log(`Successfully queued email (${templateIdentifier}) and logged warning for ${member.email} using threshold ${effectiveThreshold}`);
-        } catch (dbError) {
-            const reason = `Failed to save to DB using template ${templateIdentifier}.`;
-            console.error(`${reason} (Row ${member.rowIndex}):`, dbError);
-            // Decide if you want to add DB errors to the user-facing list
-            // errorsList.push({ rowIndex: member.rowIndex, reason, rowData: [...] }); 
-            errorCount++; // Still count as an error internally
-        }
-      }
-    }
-
-    // --- Trigger Pusher Event if emails were queued --- 
-    if (successfullyQueuedCount > 0) {
-        // Trigger event without sending sensitive data, client will refetch
-        await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { triggeredBy: 'checkMemberActivity' });
-    }
-    // --- End Trigger --- 
-
-    const message = `Activity check complete. Checked: ${checkedCount}, Below Threshold: ${belowThresholdCount}, Newly Flagged: ${flaggedCount}, Errors: ${errorCount}.`;
-    console.log(message);
-    // Return the errorsList along with other counts
-    return { success: true, message, checked: checkedCount, flagged: flaggedCount, errors: errorCount, errorsList };
+  return runActivityCheck({ type: 'user', userId: session.user.id, email: session.user.email });
+}
 
-  } catch (error) {
-    console.error("Error during member activity check:", error);
-    // Include the partially collected errors list even if a later exception occurs
-    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`, errors: errorCount, errorsList };
+// --- Server Action: Preview Activity Check (dry run, nothing is queued or logged) ---
+export async function previewMemberActivity(): Promise<ActivityCheckResult> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to run previewMemberActivity. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to perform this action." };
   }
+  console.log(`Authorized user ${session.user.email} is previewing activity check.`);
+  // --- End Authorization Check ---
+
+  return runActivityCheck({ type: 'user', userId: session.user.id, email: session.user.email }, { dryRun: true });
 }
 
 // Define an interface for the selected email fields
@@ -383,111 +60,17 @@ interface QueuedEmailSummary {
 }
 
 // --- Server Action: Process Email Queue (Sends APPROVED emails) ---
-export async function processEmailQueue(): Promise<{ success: boolean; message: string; processed?: number; sent?: number; failed?: number }> {
-    console.log("Starting approved email queue processing..."); // Updated log
-    let processedCount = 0;
-    let sentCount = 0;
-    let failedCount = 0;
-
-    try {
-        // 1. Fetch APPROVED emails
-        const emailsToProcess = await prisma.emailQueue.findMany({
-            where: {
-                status: EmailStatus.APPROVED, // <-- Changed from QUEUED to APPROVED
-            },
-        });
-
-        processedCount = emailsToProcess.length;
-
-        if (processedCount === 0) {
-            const message = "Email queue processing complete. No emails were approved for sending."; // Updated log
-            console.log(message);
-            return { success: true, message, processed: 0, sent: 0, failed: 0 };
-        }
-
-        console.log(`Found ${processedCount} emails approved for sending.`); // Updated log
-
-        // 2. Process each email
-        for (const email of emailsToProcess) {
-            let finalStatus: EmailStatus;
-            let sendResult: CreateEmailResponse | null = null; // Initialize sendResult
-            try {
-                console.log(`Attempting to send APPROVED email ID ${email.id} to ${email.recipientEmail}`); // Updated log
-                // 3. Attempt to send email
-                sendResult = await sendEmail({
-                    to: email.recipientEmail,
-                    subject: email.subject,
-                    html: email.bodyHtml,
-                });
-
-                if (sendResult && !sendResult.error) {
-                    finalStatus = EmailStatus.SENT;
-                    sentCount++;
-                    console.log(`Successfully sent email ID ${email.id} to ${email.recipientEmail}. Resend ID: ${sendResult.data?.id}`);
-                } else {
-                    finalStatus = EmailStatus.FAILED;
-                    failedCount++;
-                    const errorMessage = sendResult?.error?.message || 'Unknown Resend error';
-                    console.error(`Failed to send email ID ${email.id} to ${email.recipientEmail}: ${errorMessage}`);
-                }
-            } catch (sendError) {
-                finalStatus = EmailStatus.FAILED;
-                failedCount++;
-                console.error(`Error processing email ID ${email.id} for ${email.recipientEmail} (exception during send):`, sendError);
-            }
-
-            // 4. Update status in DB (EmailQueue and WarningLog)
-            try {
-                // Determine the message ID to store (null if not sent successfully)
-                const messageIdToStore = (finalStatus === EmailStatus.SENT && sendResult?.data?.id) ? sendResult.data.id : null;
-                
-                await prisma.$transaction([
-                    prisma.emailQueue.update({
-                        where: { id: email.id },
-                        data: { 
-                            status: finalStatus, 
-                            resendMessageId: messageIdToStore // Use the variable here
-                        }, 
-                    }),
-                    // Update related WarningLog entry
-                    prisma.warningLog.updateMany({
-                         where: {
-                             recipientEmail: email.recipientEmail,
-                             templateUsed: email.template, 
-                             status: EmailStatus.APPROVED // Only update logs whose status was APPROVED
-                         },
-                         data: { 
-                            status: finalStatus, // Update WarningLog to SENT or FAILED
-                            emailSentAt: finalStatus === EmailStatus.SENT ? new Date() : null // Add timestamp if sent
-                         },
-                    }),
-                ]);
-                 console.log(`Updated status to ${finalStatus} for email ID ${email.id} and related warning log(s). Resend ID: ${messageIdToStore}`); // Improved log
-            } catch (dbError) {
-                console.error(`Failed to update status for email ID ${email.id} in database:`, dbError);
-                if (finalStatus !== EmailStatus.FAILED) {
-                    failedCount++;
-                    if (finalStatus === EmailStatus.SENT) sentCount--;
-                }
-                finalStatus = EmailStatus.FAILED;
-            }
-        }
-
-        // --- Trigger Pusher Event if emails were processed --- 
-        if (processedCount > 0) {
-            console.log("Processing complete, triggering Pusher event.");
-            await triggerPusherEvent('admin-updates', 'email-queue-updated', { triggeredBy: 'processQueueAction' });
-        }
-        // --- End Trigger --- 
-
-        const message = `Email queue processing finished. Processed: ${processedCount}, Sent: ${sentCount}, Failed: ${failedCount}.`;
-        console.log(message);
-        return { success: true, message, processed: processedCount, sent: sentCount, failed: failedCount };
+export async function processEmailQueue(): Promise<EmailQueueResult> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to run processEmailQueue. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to perform this action." };
+  }
+  console.log(`Authorized user ${session.user.email} is processing the email queue.`);
+  // --- End Authorization Check ---
 
-    } catch (error) {
-        console.error("Error during email queue processing:", error);
-        return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
-    }
+  return runEmailQueue({ type: 'user', userId: session.user.id, email: session.user.email });
 }
 
 // --- Server Action: Get Queued Emails (for Admin Panel) ---
@@ -534,7 +117,8 @@ export async function getEmailQueue(): Promise<{ success: boolean; message: stri
 // --- Server Action: Update Email Status (Approve/Cancel) ---
 export async function updateEmailStatus(
   emailId: string, 
-  newStatus: EmailStatus
+  newStatus: EmailStatus,
+  sendAt?: string | null // Optional ISO send time when approving; omitted = next queue run
 ): Promise<{ success: boolean; message: string }> {
   console.log(`Attempting to update email ${emailId} to status ${newStatus}...`);
 
@@ -554,6 +138,11 @@ export async function updateEmailStatus(
      return { success: false, message: "Invalid target status specified." };
   }
 
+  const scheduledAt = newStatus === EmailStatus.APPROVED ? parseScheduledAt(sendAt) : null;
+  if (scheduledAt === undefined) {
+     return { success: false, message: "Invalid send time specified." };
+  }
+
   try {
     const emailToUpdate = await prisma.emailQueue.findUnique({
         where: { id: emailId },
@@ -571,23 +160,20 @@ export async function updateEmailStatus(
     // Determine action string for logging
     const actionString = newStatus === EmailStatus.APPROVED ? 'approved_email' : 'canceled_email';
 
-    await prisma.$transaction([
-      // 1. Update EmailQueue status
-      prisma.emailQueue.update({
-        where: { id: emailId },
-        data: { status: newStatus },
-      }),
+    const updatedCount = await prisma.$transaction(async (tx) => {
+      // 1. Update EmailQueue status, only if nobody edited, cancelled or approved it since it was read
+      const updated = await tx.emailQueue.updateMany({
+        where: { id: emailId, status: EmailStatus.QUEUED },
+        data: { status: newStatus, scheduledAt },
+      });
+      if (updated.count === 0) return 0;
       // 2. Update corresponding WarningLog status
-      prisma.warningLog.updateMany({
-        where: {
-          recipientEmail: emailToUpdate.recipientEmail,
-          templateUsed: emailToUpdate.template,
-          status: EmailStatus.QUEUED, // Only update logs that were queued
-        },
+      await tx.warningLog.updateMany({
+        where: { emailQueueId: emailId },
         data: { status: newStatus }, 
-      }),
+      });
       // 3. Create AdminLog entry
-      prisma.adminLog.create({
+      await tx.adminLog.create({
           data: {
               adminUserId: adminUserId,
               adminUserEmail: adminUserEmail,
@@ -595,11 +181,17 @@ export async function updateEmailStatus(
               details: { 
                   emailId: emailId, 
                   updatedStatus: newStatus,
-                  recipient: emailToUpdate.recipientEmail // Include recipient for context
+                  recipient: emailToUpdate.recipientEmail, // Include recipient for context
+                  scheduledAt: scheduledAt?.toISOString() ?? null
               } 
           }
-      })
-    ]);
+      });
+      return updated.count;
+    });
+
+    if (updatedCount === 0) {
+        return { success: false, message: `Email ${emailId} is no longer in QUEUED status. Refresh the queue and try again.` };
+    }
 
     console.log(`Successfully updated email ${emailId} and related warning log(s) to ${newStatus}, and created admin log.`);
     
@@ -609,7 +201,10 @@ export async function updateEmailStatus(
     await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { updatedId: emailId, newStatus: newStatus });
     // --- End Trigger --- 
 
-    return { success: true, message: `Email status updated to ${newStatus}.` };
+    return {
+      success: true,
+      message: scheduledAt ? `Email approved and scheduled for ${scheduledAt.toISOString()}.` : `Email status updated to ${newStatus}.`,
+    };
 
   } catch (error) {
     console.error(`Error updating status for email ${emailId} to ${newStatus}:`, error);
@@ -617,10 +212,125 @@ export async function updateEmailStatus(
   }
 }
 
+// Define an interface for the outbox rows (emails on their way out or that failed)
+interface OutboxEmailSummary {
+  id: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  subject: string;
+  template: string;
+  status: EmailStatus;
+  attemptCount: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  scheduledAt: Date | null;
+  updatedAt: Date;
+}
+
+// Most recent outbox rows shown to the panel
+const OUTBOX_LIMIT = 100;
+
+// --- Server Action: Get Outbox (approved, sending, retrying and failed emails) ---
+export async function getEmailOutbox(): Promise<{ success: boolean; message: string; emails?: OutboxEmailSummary[]; maxAttempts?: number }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch the outbox. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view the outbox." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const emails = await prisma.emailQueue.findMany({
+      where: { status: { in: [EmailStatus.APPROVED, EmailStatus.SENDING, EmailStatus.FAILED] } },
+      orderBy: { updatedAt: 'desc' },
+      take: OUTBOX_LIMIT,
+      select: {
+        id: true,
+        recipientEmail: true,
+        recipientName: true,
+        subject: true,
+        template: true,
+        status: true,
+        attemptCount: true,
+        lastError: true,
+        nextAttemptAt: true,
+        scheduledAt: true,
+        updatedAt: true,
+      },
+    });
+    return { success: true, message: "Fetched outbox.", emails, maxAttempts: getMaxSendAttempts() };
+  } catch (error) {
+    console.error("Error fetching outbox:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Requeue a Failed Email (or retry a backed-off one now) ---
+export async function requeueEmail(emailId: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn(`Unauthorized attempt to requeue email ${emailId}. User:`, session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to perform this action." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    const email = await prisma.emailQueue.findUnique({
+      where: { id: emailId },
+      select: { recipientEmail: true, template: true, status: true, attemptCount: true, nextAttemptAt: true },
+    });
+    if (!email) {
+      return { success: false, message: `Email with ID ${emailId} not found.` };
+    }
+    const isFailed = email.status === EmailStatus.FAILED;
+    const isBackingOff = email.status === EmailStatus.APPROVED && email.nextAttemptAt !== null;
+    if (!isFailed && !isBackingOff) {
+      return { success: false, message: `Email ${emailId} is not failed or waiting to retry (current: ${email.status}).` };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      // A failed email starts over with a full set of attempts; a backed-off one just skips the wait
+      const updated = await tx.emailQueue.updateMany({
+        where: { id: emailId, status: email.status },
+        data: isFailed ? { status: EmailStatus.APPROVED, attemptCount: 0, nextAttemptAt: null } : { nextAttemptAt: null },
+      });
+      if (updated.count === 0) {
+        throw new Error(`Email ${emailId} changed status while it was being requeued.`);
+      }
+      if (isFailed) {
+        await tx.warningLog.updateMany({
+          where: { emailQueueId: emailId },
+          data: { status: EmailStatus.APPROVED },
+        });
+      }
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'requeue_email',
+              details: { emailId, recipient: email.recipientEmail, previousStatus: email.status, previousAttempts: email.attemptCount }
+          }
+      });
+    });
+
+    revalidatePath('/');
+    await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { updatedId: emailId, newStatus: EmailStatus.APPROVED });
+
+    return { success: true, message: isFailed ? "Email requeued. It will be sent on the next queue run." : "Email will be retried on the next queue run." };
+  } catch (error) {
+    console.error(`Error requeueing email ${emailId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
 // --- Server Action: Get Email Body HTML (for Preview) ---
 export async function getEmailBodyHtml(
   emailId: string
-): Promise<{ success: boolean; message: string; htmlContent?: string }> {
+): Promise<{ success: boolean; message: string; subject?: string; htmlContent?: string }> {
   console.log(`Attempting to fetch HTML content for email ${emailId}...`);
 
   // --- Authorization Check ---
@@ -639,7 +349,7 @@ export async function getEmailBodyHtml(
         // Optional: Ensure it's still in a state where preview makes sense (e.g., QUEUED)
         // status: EmailStatus.QUEUED 
       },
-      select: { bodyHtml: true, status: true }, 
+      select: { subject: true, bodyHtml: true, status: true }, 
     });
 
     if (!email) {
@@ -651,7 +361,7 @@ export async function getEmailBodyHtml(
     //   return { success: false, message: `Email ${emailId} is not in QUEUED status (current: ${email.status}). Cannot preview.` };
     // }
 
-    return { success: true, message: "Fetched email HTML content.", htmlContent: email.bodyHtml };
+    return { success: true, message: "Fetched email HTML content.", subject: email.subject, htmlContent: email.bodyHtml };
 
   } catch (error) {
     console.error(`Error fetching HTML content for email ${emailId}:`, error);
@@ -659,6 +369,194 @@ export async function getEmailBodyHtml(
   }
 }
 
+// Define an interface for a queued email opened in the editor
+interface EditableEmail {
+  id: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  subject: string;
+  bodyHtml: string;
+  template: string;
+  templateVariables: StoredTemplateVariables | null; // null for emails queued before variables were stored
+  originalSubject: string | null;
+  originalBodyHtml: string | null;
+  editedAt: Date | null;
+  editedBy: string | null;
+}
+
+// --- Server Action: Get a Queued Email for Editing ---
+export async function getEditableEmail(emailId: string): Promise<{ success: boolean; message: string; email?: EditableEmail }> {
+  // --- Authorization Check ---
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to open email for editing. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to edit emails." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const email = await prisma.emailQueue.findUnique({
+      where: { id: emailId },
+      select: {
+        id: true, recipientEmail: true, recipientName: true, subject: true, bodyHtml: true, template: true, status: true,
+        templateVariables: true, originalSubject: true, originalBodyHtml: true, editedAt: true, editedBy: true,
+      },
+    });
+    if (!email) {
+      return { success: false, message: `Email with ID ${emailId} not found.` };
+    }
+    if (email.status !== EmailStatus.QUEUED) {
+      return { success: false, message: `Email ${emailId} is not in QUEUED status (current: ${email.status}). Only queued emails can be edited.` };
+    }
+
+    return {
+      success: true,
+      message: "Fetched email for editing.",
+      email: {
+        id: email.id,
+        recipientEmail: email.recipientEmail,
+        recipientName: email.recipientName,
+        subject: email.subject,
+        bodyHtml: email.bodyHtml,
+        template: email.template,
+        templateVariables: email.templateVariables as unknown as StoredTemplateVariables | null,
+        originalSubject: email.originalSubject,
+        originalBodyHtml: email.originalBodyHtml,
+        editedAt: email.editedAt,
+        editedBy: email.editedBy,
+      },
+    };
+  } catch (error) {
+    console.error(`Error fetching email ${emailId} for editing:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Edit a Queued Email (subject, template variables or final HTML) ---
+export async function editQueuedEmail(input: {
+  emailId: string;
+  subject: string;
+  variables?: Pick<TemplateVariables, 'name' | 'activityCount' | 'threshold'> | null; // Re-render the template with these values
+  bodyHtml?: string | null;             // Or replace the body with this HTML as-is
+}): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check ---
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to edit email. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  const { emailId, variables, bodyHtml } = input;
+  const subject = input.subject.trim();
+  if (!subject) {
+    return { success: false, message: "Subject cannot be empty." };
+  }
+  if (variables && bodyHtml) {
+    return { success: false, message: "Change either the template variables or the HTML, not both." };
+  }
+  if (variables && (!variables.name.trim()
+      || !Number.isInteger(variables.activityCount) || variables.activityCount < 0
+      || !Number.isInteger(variables.threshold) || variables.threshold < 0)) {
+    return { success: false, message: "Name is required, and activity count and threshold must be non-negative whole numbers." };
+  }
+  if (bodyHtml !== undefined && bodyHtml !== null && !bodyHtml.trim()) {
+    return { success: false, message: "Email body cannot be empty." };
+  }
+
+  try {
+    const email = await prisma.emailQueue.findUnique({ where: { id: emailId } });
+    if (!email) {
+      return { success: false, message: `Email with ID ${emailId} not found.` };
+    }
+    if (email.status !== EmailStatus.QUEUED) {
+      return { success: false, message: `Email ${emailId} is not in QUEUED status (current: ${email.status}). Only queued emails can be edited.` };
+    }
+
+    // --- Build the New Body ---
+    let newBodyHtml = email.bodyHtml;
+    let newVariables: TemplateVariables | null = null;
+    let newVersionId: string | null = null; // Re-rendering uses the template's current version
+    let mode: 'subject' | 'variables' | 'html' = 'subject';
+    if (variables) {
+      // Keep the role, portal link, contact and term the email was queued with; older emails get today's values
+      const stored = (email.templateVariables ?? {}) as Partial<StoredTemplateVariables>;
+      const context = await loadTemplateContext();
+      newVariables = buildTemplateVariables(
+        { name: variables.name.trim(), activityCount: variables.activityCount, threshold: variables.threshold, role: stored.role },
+        {
+          portalUrl: stored.portalUrl ?? context.portalUrl,
+          panelContact: stored.panelContact ?? email.replyTo ?? email.fromAddress ?? context.panelContact,
+          termName: stored.termName ?? context.termName,
+        }
+      );
+      const compiled = await compileTemplate(email.template);
+      if (compiled.kind !== 'ok') {
+        const reason = compiled.kind === 'loadError'
+          ? `Template '${email.template}' could not be loaded.`
+          : `${compiled.kind === 'variableError' ? 'Placeholder' : 'MJML rendering'} errors: ${compiled.firstError}`;
+        return { success: false, message: reason };
+      }
+      newBodyHtml = fillTemplateVariables(compiled.html, newVariables);
+      newVersionId = compiled.versionId;
+      mode = 'variables';
+    } else if (bodyHtml) {
+      newBodyHtml = bodyHtml;
+      mode = 'html';
+    }
+    // --- End Build ---
+
+    await prisma.$transaction(async (tx) => {
+      const updated = await tx.emailQueue.updateMany({
+        where: { id: emailId, status: EmailStatus.QUEUED },
+        data: {
+          subject,
+          bodyHtml: newBodyHtml,
+          ...(newVariables ? { templateVariables: { ...newVariables }, templateVersionId: newVersionId } : {}),
+          // The first edit keeps what the activity check queued; later edits don't overwrite it
+          originalSubject: email.originalSubject ?? email.subject,
+          originalBodyHtml: email.originalBodyHtml ?? email.bodyHtml,
+          editedAt: new Date(),
+          editedBy: adminUserEmail,
+        },
+      });
+      if (updated.count === 0) {
+        throw new Error(`Email ${emailId} was approved or canceled while it was being edited.`);
+      }
+      if (newVariables) {
+        // The warning records the version its email is rendered from
+        await tx.warningLog.updateMany({ where: { emailQueueId: emailId }, data: { templateVersionId: newVersionId } });
+      }
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'edited_email',
+              details: {
+                  emailId,
+                  recipient: email.recipientEmail,
+                  mode,
+                  previousSubject: email.subject,
+                  subject,
+                  ...(newVariables ? { variables: { ...newVariables }, templateVersionId: newVersionId } : {}),
+                  bodyChanged: newBodyHtml !== email.bodyHtml,
+              }
+          }
+      });
+    });
+
+    console.log(`Email ${emailId} edited by ${adminUserEmail} (${mode}).`);
+    revalidatePath('/');
+    await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { updatedId: emailId, newStatus: EmailStatus.QUEUED });
+    return { success: true, message: `Email to ${email.recipientEmail} updated.` };
+  } catch (error) {
+    console.error(`Error editing email ${emailId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
 // --- Server Action: Get Role Thresholds --- 
 export async function getRoleThresholds(): Promise<{
   success: boolean;
@@ -727,34 +625,782 @@ export async function upsertRoleThreshold(
         create: { roleName: normalizedRoleName, threshold: threshold },
       });
 
-      // Create AdminLog entry
+      // Create AdminLog entry
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'upsert_role_threshold',
+              details: { 
+                  roleName: normalizedRoleName, 
+                  newThreshold: threshold,
+                  previousThreshold: existing?.threshold // Log previous value if it existed
+              } 
+          }
+      });
+      
+      return newThreshold;
+    });
+
+    console.log(`Successfully upserted threshold for role ${normalizedRoleName}. New value: ${threshold}.`);
+    revalidatePath('/'); // Revalidate home page where thresholds might be displayed/used
+    
+    // --- Trigger Pusher Event --- 
+    await triggerPusherEvent(ADMIN_CHANNEL, THRESHOLDS_EVENT, { roleName: normalizedRoleName, newThreshold: threshold });
+    // --- End Trigger --- 
+    
+    return { success: true, message: `Threshold for role '${normalizedRoleName}' set to ${threshold}.`, threshold: upsertResult };
+
+  } catch (error) {
+    console.error(`Error upserting threshold for role ${normalizedRoleName}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Re-warn Policy ---
+export async function getRewarnPolicySettings(): Promise<{ success: boolean; message: string; policy?: RewarnPolicySettings }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to fetch re-warn policy. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view the re-warn policy." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const policy = await getRewarnPolicy();
+    return { success: true, message: "Fetched re-warn policy.", policy };
+  } catch (error) {
+    console.error("Error fetching re-warn policy:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Update Re-warn Policy ---
+export async function updateRewarnPolicy(input: {
+  mode: RewarnMode;
+  cooldownDays: number;
+  termName: string | null;
+  termStartsAt: string | null; // ISO date (YYYY-MM-DD) from the panel form
+  blockingStatuses: EmailStatus[];
+}): Promise<{ success: boolean; message: string; policy?: RewarnPolicySettings }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to update re-warn policy. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  // --- Validation --- 
+  if (!Object.values(RewarnMode).includes(input.mode)) {
+      return { success: false, message: `Invalid re-warn mode '${input.mode}'.` };
+  }
+  if (!Number.isInteger(input.cooldownDays) || input.cooldownDays < 1) {
+      return { success: false, message: "Cooldown must be a whole number of days (at least 1)." };
+  }
+  const invalidStatus = input.blockingStatuses.find(status => !CONFIGURABLE_BLOCKING_STATUSES.includes(status));
+  if (invalidStatus) {
+      return { success: false, message: `Status '${invalidStatus}' cannot be configured (queued and approved emails always block).` };
+  }
+  let termStartsAt: Date | null = null;
+  if (input.termStartsAt) {
+      termStartsAt = new Date(input.termStartsAt);
+      if (isNaN(termStartsAt.getTime())) {
+          return { success: false, message: "Term start date is not a valid date." };
+      }
+  }
+  if (input.mode === RewarnMode.TERM && !termStartsAt) {
+      return { success: false, message: "A term start date is required for the once-per-term policy." };
+  }
+  const termName = input.termName?.trim() || null;
+  // --- End Validation ---
+
+  const data = {
+    mode: input.mode,
+    cooldownDays: input.cooldownDays,
+    termName,
+    termStartsAt,
+    blockingStatuses: input.blockingStatuses,
+  };
+
+  try {
+    const policy = await prisma.$transaction(async (tx) => {
+      const existing = await tx.rewarnPolicy.findUnique({ where: { id: REWARN_POLICY_ID } });
+
+      const saved = await tx.rewarnPolicy.upsert({
+        where: { id: REWARN_POLICY_ID },
+        update: data,
+        create: { id: REWARN_POLICY_ID, ...data },
+      });
+
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'update_rewarn_policy',
+              details: {
+                  mode: saved.mode,
+                  cooldownDays: saved.cooldownDays,
+                  termName: saved.termName,
+                  termStartsAt: saved.termStartsAt?.toISOString() ?? null,
+                  blockingStatuses: saved.blockingStatuses,
+                  previousMode: existing?.mode, // Undefined if the default policy was in use
+              }
+          }
+      });
+
+      return saved;
+    });
+
+    const settings: RewarnPolicySettings = {
+      mode: policy.mode,
+      cooldownDays: policy.cooldownDays,
+      termName: policy.termName,
+      termStartsAt: policy.termStartsAt,
+      blockingStatuses: policy.blockingStatuses,
+    };
+    console.log(`Re-warn policy updated by ${adminUserEmail}: ${describeRewarnPolicy(settings)}`);
+    revalidatePath('/');
+
+    return { success: true, message: `Re-warn policy saved: ${describeRewarnPolicy(settings)}.`, policy: settings };
+  } catch (error) {
+    console.error("Error updating re-warn policy:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Sender Identities ---
+export async function getSenderIdentities(): Promise<{ success: boolean; message: string; identities?: SenderIdentity[]; templates?: string[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch sender identities. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view sender identities." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const identities = await prisma.senderIdentity.findMany({ orderBy: [{ scope: 'asc' }, { scopeValue: 'asc' }] });
+    const templates = await listTemplateIdentifiers();
+    return { success: true, message: "Fetched sender identities.", identities, templates };
+  } catch (error) {
+    console.error("Error fetching sender identities:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Create or Update a Sender Identity ---
+export async function saveSenderIdentity(input: {
+  scope: SenderScope;
+  scopeValue: string | null; // Template identifier or role; ignored for DEFAULT
+  fromName: string;
+  fromAddress: string;
+  replyTo: string | null;
+}): Promise<{ success: boolean; message: string; identity?: SenderIdentity }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to save sender identity. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  // --- Validation --- 
+  if (!Object.values(SenderScope).includes(input.scope)) {
+      return { success: false, message: "Invalid sender scope." };
+  }
+  const scopeValue = normalizeScopeValue(input.scope, input.scopeValue);
+  const fromName = input.fromName.trim();
+  const fromAddress = input.fromAddress.trim();
+  const replyTo = input.replyTo?.trim() || null;
+  if (input.scope !== SenderScope.DEFAULT && !scopeValue) {
+      return { success: false, message: `Please choose the ${input.scope === SenderScope.ROLE ? 'role' : 'template'} this identity applies to.` };
+  }
+  if (!fromName) {
+      return { success: false, message: "Please enter a from name." };
+  }
+  if (!fromAddress.includes('@') || (replyTo !== null && !replyTo.includes('@'))) {
+      return { success: false, message: "From and reply-to must be valid email addresses." };
+  }
+  // --- End Validation ---
+
+  try {
+    const identity = await prisma.$transaction(async (tx) => {
+      const saved = await tx.senderIdentity.upsert({
+        where: { scope_scopeValue: { scope: input.scope, scopeValue } },
+        update: { fromName, fromAddress, replyTo },
+        create: { scope: input.scope, scopeValue, fromName, fromAddress, replyTo },
+      });
+
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'save_sender_identity',
+              details: { scope: input.scope, scopeValue, fromName, fromAddress, replyTo }
+          }
+      });
+      return saved;
+    });
+
+    revalidatePath('/');
+    return { success: true, message: "Sender identity saved. It applies to emails queued from now on.", identity };
+  } catch (error) {
+    console.error("Error saving sender identity:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Delete a Sender Identity ---
+export async function deleteSenderIdentity(identityId: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to delete sender identity. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.senderIdentity.delete({ where: { id: identityId } });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'delete_sender_identity',
+              details: { identityId, scope: deleted.scope, scopeValue: deleted.scopeValue, fromAddress: deleted.fromAddress }
+          }
+      });
+    });
+
+    revalidatePath('/');
+    return { success: true, message: "Sender identity removed." };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return { success: false, message: "Sender identity not found. It may already have been removed." };
+    }
+    console.error(`Error deleting sender identity ${identityId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Template Rules ---
+export async function getTemplateRules(): Promise<{ success: boolean; message: string; rules?: TemplateRule[]; templates?: string[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch template rules. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view template rules." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const rules = sortTemplateRules(await prisma.templateRule.findMany());
+    const templates = await listTemplateIdentifiers();
+    return { success: true, message: "Fetched template rules.", rules, templates };
+  } catch (error) {
+    console.error("Error fetching template rules:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Create or Update a Template Rule ---
+export async function saveTemplateRule(input: {
+  matchType: TemplateRuleMatch;
+  matchValue: string; // Role or personality tag, matched case-insensitively
+  templateIdentifier: string;
+  precedence: number; // Lower numbers are tried first
+}): Promise<{ success: boolean; message: string; rule?: TemplateRule }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to save template rule. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  // --- Validation --- 
+  if (!Object.values(TemplateRuleMatch).includes(input.matchType)) {
+      return { success: false, message: "Invalid rule type." };
+  }
+  const matchValue = normalizeMatchValue(input.matchValue);
+  if (!matchValue) {
+      return { success: false, message: `Please enter the ${input.matchType === TemplateRuleMatch.ROLE ? 'role' : 'tag'} this rule applies to.` };
+  }
+  if (!Number.isInteger(input.precedence) || input.precedence < 0) {
+      return { success: false, message: "Precedence must be a non-negative whole number." };
+  }
+  // --- End Validation ---
+
+  try {
+    const templates = await listTemplateIdentifiers();
+    if (!templates.includes(input.templateIdentifier)) {
+      return { success: false, message: `Template '${input.templateIdentifier}' does not exist.` };
+    }
+
+    const rule = await prisma.$transaction(async (tx) => {
+      const saved = await tx.templateRule.upsert({
+        where: { matchType_matchValue: { matchType: input.matchType, matchValue } },
+        update: { templateIdentifier: input.templateIdentifier, precedence: input.precedence },
+        create: { matchType: input.matchType, matchValue, templateIdentifier: input.templateIdentifier, precedence: input.precedence },
+      });
+
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'save_template_rule',
+              details: { matchType: input.matchType, matchValue, templateIdentifier: input.templateIdentifier, precedence: input.precedence }
+          }
+      });
+      return saved;
+    });
+
+    revalidatePath('/');
+    return { success: true, message: "Template rule saved. It applies to warnings queued from now on.", rule };
+  } catch (error) {
+    console.error("Error saving template rule:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Delete a Template Rule ---
+export async function deleteTemplateRule(ruleId: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to delete template rule. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const deleted = await tx.templateRule.delete({ where: { id: ruleId } });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'delete_template_rule',
+              details: { ruleId, matchType: deleted.matchType, matchValue: deleted.matchValue, templateIdentifier: deleted.templateIdentifier }
+          }
+      });
+    });
+
+    revalidatePath('/');
+    return { success: true, message: "Template rule removed. Members it matched are reported as unmatched until another rule covers them." };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+      return { success: false, message: "Template rule not found. It may already have been removed." };
+    }
+    console.error(`Error deleting template rule ${ruleId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// Define an interface for templates listed in the editor
+interface EmailTemplateSummary {
+  identifier: string;
+  mjml: string;
+  subject: string;
+  preheader: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+  variables: string[];   // Declared placeholder variables
+  hasDefault: boolean;   // Ships as a file in src/emails, so it can be reset
+  isModified: boolean;   // Differs from that file
+}
+
+// Declared variables are a set, so their order doesn't matter
+const sameVariables = (a: string[], b: string[]): boolean => a.length === b.length && a.every(name => b.includes(name));
+
+// Whether two versions of a template would send the same emails
+const sameTemplateContent = (
+  a: { mjml: string; subject: string; preheader: string | null; variables: string[] },
+  b: { mjml: string; subject: string; preheader: string | null; variables: string[] }
+): boolean => a.mjml === b.mjml && a.subject === b.subject && (a.preheader ?? null) === (b.preheader ?? null) && sameVariables(a.variables, b.variables);
+
+// A variable templates can declare, as shown in the editor
+interface TemplateVariableOption extends TemplateVariableDefinition {
+  name: string;
+}
+
+// --- Server Action: Get Email Templates ---
+export async function getEmailTemplates(): Promise<{ success: boolean; message: string; templates?: EmailTemplateSummary[]; variableSchema?: TemplateVariableOption[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch email templates. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view email templates." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    await seedDefaultTemplates();
+    const rows = await prisma.emailTemplate.findMany({ orderBy: { identifier: 'asc' } });
+    const templates: EmailTemplateSummary[] = [];
+    for (const row of rows) {
+      const defaultSource = await readDefaultTemplate(row.identifier);
+      templates.push({
+        identifier: row.identifier,
+        mjml: row.mjml,
+        subject: row.subject,
+        preheader: row.preheader,
+        updatedBy: row.updatedBy,
+        updatedAt: row.updatedAt,
+        variables: row.variables,
+        hasDefault: defaultSource !== null,
+        isModified: defaultSource !== null && !sameTemplateContent(row, getDefaultTemplateContent(row.identifier, defaultSource)),
+      });
+    }
+    const variableSchema = Object.entries(TEMPLATE_VARIABLE_SCHEMA).map(([name, definition]) => ({ name, ...definition }));
+    return { success: true, message: "Fetched email templates.", templates, variableSchema };
+  } catch (error) {
+    console.error("Error fetching email templates:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Preview MJML with Sample Member Data ---
+export async function previewEmailTemplate(content: TemplateContent, variables: string[]): Promise<{ success: boolean; message: string; html?: string; subject?: string; errors?: TemplateValidationError[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to preview email template. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to preview email templates." };
+  }
+  // --- End Authorization Check ---
+
+  const { html, errors } = validateTemplate(content, variables);
+  let previewHtml = html;
+  let previewSubject = content.subject;
+  try {
+    previewHtml = fillTemplateVariables(html, SAMPLE_TEMPLATE_VARIABLES);
+    previewSubject = fillTemplateVariables(content.subject, SAMPLE_TEMPLATE_VARIABLES, { plainText: true });
+  } catch {
+    // Placeholder errors, including placeholders MJML dropped, are already in `errors`; show the template unfilled meanwhile
+  }
+  return {
+    success: true,
+    message: errors.length > 0 ? `${errors.length} template error(s).` : "Rendered template.",
+    html: previewHtml,
+    subject: previewSubject,
+    errors,
+  };
+}
+
+// --- Server Action: Create or Update an Email Template ---
+export async function saveEmailTemplate(input: {
+  identifier: string;
+  mjml: string;
+  subject: string;
+  preheader: string | null; // Empty keeps the MJML's own <mj-preview>
+  variables: string[]; // Declared placeholder variables
+}): Promise<{ success: boolean; message: string; errors?: TemplateValidationError[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to save email template. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  const identifier = input.identifier.trim();
+  if (!isValidTemplateIdentifier(identifier)) {
+    return { success: false, message: "Template identifier may only contain lowercase letters, digits and underscores." };
+  }
+  if (!input.mjml.trim()) {
+    return { success: false, message: "Template MJML cannot be empty." };
+  }
+  // A template that doesn't render would make the activity check skip every member using it
+  const variables = Array.from(new Set(input.variables));
+  const content = { mjml: input.mjml, subject: input.subject.trim(), preheader: input.preheader?.trim() || null };
+  const { errors } = validateTemplate(content, variables);
+  if (errors.length > 0) {
+    return { success: false, message: `Fix ${errors.length} template error(s) before saving.`, errors };
+  }
+
+  try {
+    const existing = await prisma.emailTemplate.findUnique({ where: { identifier }, select: { mjml: true, subject: true, preheader: true, variables: true } });
+    if (existing && sameTemplateContent(existing, { ...content, variables })) {
+      return { success: true, message: `Template '${identifier}' has no changes to save.` };
+    }
+
+    const version = await prisma.$transaction(async (tx) => {
+      const saved = await saveTemplateVersion(tx, { identifier, ...content, variables, createdBy: adminUserEmail });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'save_email_template',
+              details: { identifier, created: !existing, variables, versionId: saved.id, version: saved.version }
+          }
+      });
+      return saved;
+    });
+
+    console.log(`Email template '${identifier}' saved by ${adminUserEmail} as version ${version.version}.`);
+    revalidatePath('/');
+    return { success: true, message: existing ? `Template '${identifier}' saved as version ${version.version}. New warnings will use it.` : `Template '${identifier}' created.` };
+  } catch (error) {
+    console.error(`Error saving email template '${identifier}':`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Reset an Email Template to its Default File ---
+export async function resetEmailTemplate(identifier: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to reset email template. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    const defaultSource = await readDefaultTemplate(identifier);
+    if (defaultSource === null) {
+      return { success: false, message: `Template '${identifier}' has no default to reset to.` };
+    }
+
+    const version = await prisma.$transaction(async (tx) => {
+      const saved = await saveTemplateVersion(tx, {
+        identifier,
+        ...getDefaultTemplateContent(identifier, defaultSource),
+        createdBy: adminUserEmail,
+        note: 'Reset to default',
+      });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'reset_email_template',
+              details: { identifier, versionId: saved.id, version: saved.version }
+          }
+      });
+      return saved;
+    });
+
+    console.log(`Email template '${identifier}' reset to default by ${adminUserEmail} (version ${version.version}).`);
+    revalidatePath('/');
+    return { success: true, message: `Template '${identifier}' reset to the default as version ${version.version}.` };
+  } catch (error) {
+    console.error(`Error resetting email template '${identifier}':`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// Define an interface for an entry in a template's history
+interface TemplateVersionSummary {
+  id: string;
+  version: number;
+  variables: string[];
+  createdBy: string | null;
+  note: string | null;
+  createdAt: Date;
+  isCurrent: boolean;
+  emailCount: number; // Queued emails rendered from this version
+}
+
+// --- Server Action: Get a Template's Version History ---
+export async function getTemplateVersions(identifier: string): Promise<{ success: boolean; message: string; versions?: TemplateVersionSummary[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch template versions. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view email templates." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const [template, versions] = await Promise.all([
+      prisma.emailTemplate.findUnique({ where: { identifier }, select: { currentVersionId: true } }),
+      prisma.emailTemplateVersion.findMany({
+        where: { identifier },
+        orderBy: { version: 'desc' },
+        select: { id: true, version: true, variables: true, createdBy: true, note: true, createdAt: true, _count: { select: { emails: true } } },
+      }),
+    ]);
+    return {
+      success: true,
+      message: "Fetched template versions.",
+      versions: versions.map(({ _count, ...version }) => ({
+        ...version,
+        isCurrent: version.id === template?.currentVersionId,
+        emailCount: _count.emails,
+      })),
+    };
+  } catch (error) {
+    console.error(`Error fetching versions of email template '${identifier}':`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Compare a Template Version with the One Before It ---
+export async function getTemplateVersionDiff(versionId: string): Promise<{
+  success: boolean;
+  message: string;
+  diff?: DiffLine[];
+  previousVersion?: number | null; // null for a template's first version
+  fieldChanges?: { field: 'Subject' | 'Preheader'; from: string; to: string }[];
+  addedVariables?: string[];
+  removedVariables?: string[];
+}> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to compare template versions. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view email templates." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const version = await prisma.emailTemplateVersion.findUnique({ where: { id: versionId } });
+    if (!version) {
+      return { success: false, message: "Template version not found." };
+    }
+    const previous = await prisma.emailTemplateVersion.findFirst({
+      where: { identifier: version.identifier, version: { lt: version.version } },
+      orderBy: { version: 'desc' },
+    });
+    const previousVariables = previous?.variables ?? [];
+    const fieldChanges: { field: 'Subject' | 'Preheader'; from: string; to: string }[] = [];
+    if ((previous?.subject ?? '') !== version.subject) {
+      fieldChanges.push({ field: 'Subject', from: previous?.subject ?? '', to: version.subject });
+    }
+    if ((previous?.preheader ?? '') !== (version.preheader ?? '')) {
+      fieldChanges.push({ field: 'Preheader', from: previous?.preheader ?? '', to: version.preheader ?? '' });
+    }
+    return {
+      success: true,
+      message: previous ? `Changes from version ${previous.version} to ${version.version}.` : `Version ${version.version} is the first version.`,
+      diff: diffLines(previous?.mjml ?? '', version.mjml),
+      previousVersion: previous?.version ?? null,
+      fieldChanges,
+      addedVariables: version.variables.filter(name => !previousVariables.includes(name)),
+      removedVariables: previousVariables.filter(name => !version.variables.includes(name)),
+    };
+  } catch (error) {
+    console.error(`Error comparing template version ${versionId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Roll a Template Back to an Earlier Version ---
+export async function rollbackEmailTemplate(versionId: string): Promise<{ success: boolean; message: string; errors?: TemplateValidationError[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to roll back email template. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    const target = await prisma.emailTemplateVersion.findUnique({ where: { id: versionId } });
+    if (!target) {
+      return { success: false, message: "Template version not found." };
+    }
+    // The variable schema may have changed since this version was saved
+    const { errors } = validateTemplate(target, target.variables);
+    if (errors.length > 0) {
+      return { success: false, message: `Version ${target.version} no longer passes validation (${errors.length} error(s)). Restore it by hand instead.`, errors };
+    }
+
+    // Rolling back adds a new version with the old content, so the history stays append-only
+    const version = await prisma.$transaction(async (tx) => {
+      const saved = await saveTemplateVersion(tx, {
+        identifier: target.identifier,
+        mjml: target.mjml,
+        subject: target.subject,
+        preheader: target.preheader,
+        variables: target.variables,
+        createdBy: adminUserEmail,
+        note: `Rolled back to version ${target.version}`,
+      });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'rollback_email_template',
+              details: { identifier: target.identifier, restoredVersion: target.version, restoredVersionId: target.id, versionId: saved.id, version: saved.version }
+          }
+      });
+      return saved;
+    });
+
+    console.log(`Email template '${target.identifier}' rolled back to version ${target.version} by ${adminUserEmail}.`);
+    revalidatePath('/');
+    return { success: true, message: `Template '${target.identifier}' rolled back to version ${target.version} (saved as version ${version.version}).` };
+  } catch (error) {
+    console.error(`Error rolling back to template version ${versionId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Delete a Custom Email Template ---
+export async function deleteEmailTemplate(identifier: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to delete email template. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  // Default templates would be seeded straight back, so they can only be reset
+  if (await readDefaultTemplate(identifier) !== null) {
+    return { success: false, message: `Template '${identifier}' is a default template. Reset it instead.` };
+  }
+
+  try {
+    // A rule pointing at a missing template would fail every warning it matches
+    const ruleCount = await prisma.templateRule.count({ where: { templateIdentifier: identifier } });
+    if (ruleCount > 0) {
+      return { success: false, message: `Template '${identifier}' is used by ${ruleCount} template rule(s). Change or remove them first.` };
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.emailTemplate.delete({ where: { identifier } });
       await tx.adminLog.create({
           data: {
               adminUserId: adminUserId,
               adminUserEmail: adminUserEmail,
-              action: 'upsert_role_threshold',
-              details: { 
-                  roleName: normalizedRoleName, 
-                  newThreshold: threshold,
-                  previousThreshold: existing?.threshold // Log previous value if it existed
-              } 
+              action: 'delete_email_template',
+              details: { identifier }
           }
       });
-      
-      return newThreshold;
     });
 
-    console.log(`Successfully upserted threshold for role ${normalizedRoleName}. New value: ${threshold}.`);
-    revalidatePath('/'); // Revalidate home page where thresholds might be displayed/used
-    
-    // --- Trigger Pusher Event --- 
-    await triggerPusherEvent(ADMIN_CHANNEL, THRESHOLDS_EVENT, { roleName: normalizedRoleName, newThreshold: threshold });
-    // --- End Trigger --- 
-    
-    return { success: true, message: `Threshold for role '${normalizedRoleName}' set to ${threshold}.`, threshold: upsertResult };
-
+    console.log(`Email template '${identifier}' deleted by ${adminUserEmail}.`);
+    revalidatePath('/');
+    return { success: true, message: `Template '${identifier}' deleted.` };
   } catch (error) {
-    console.error(`Error upserting threshold for role ${normalizedRoleName}:`, error);
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return { success: false, message: "Template not found. It may have already been deleted." };
+    }
+    console.error(`Error deleting email template '${identifier}':`, error);
     return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
   }
 }
@@ -771,21 +1417,11 @@ export async function getUniqueRolesFromSheet(): Promise<{ success: boolean; mes
     }
     // --- End Authorization Check ---
 
-    // Check if the range is configured (it should be the same as checkMemberActivity)
-    if (!sheetMemberDataRange) {
-        console.error("GOOGLE_SHEET_MEMBER_DATA_RANGE environment variable is not set.");
-        return { success: false, message: "Member data sheet range is not configured." };
-    }
-
     try {
-        const rawData = await getSheetData(sheetMemberDataRange);
-        if (rawData === null) {
-            return { success: false, message: "Failed to fetch data from Google Sheet." };
-        }
-
+        const roster = await loadRoster(['role']);
         const uniqueRoles = new Set<string>();
-        rawData.forEach(row => {
-            const roleValue = row[COLUMN_INDICES.ROLE]; // Get role from Column D (index 3)
+        roster.rows.forEach(row => {
+            const roleValue = getRosterCell(roster, row, 'role');
             if (typeof roleValue === 'string' && roleValue.trim()) {
                 uniqueRoles.add(roleValue.trim()); // Keep original casing for display?
                                                     // Or normalize here: uniqueRoles.add(roleValue.trim().toLowerCase());
@@ -798,6 +1434,9 @@ export async function getUniqueRolesFromSheet(): Promise<{ success: boolean; mes
         return { success: true, message: "Fetched unique roles.", roles: sortedRoles };
 
     } catch (error) {
+        if (error instanceof RosterError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error fetching unique roles from sheet:", error);
         return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
     }
@@ -810,7 +1449,8 @@ interface MemberStatus {
   activityCount?: number;
   role?: string | null; // Role found in sheet
   effectiveThreshold?: number;
-  statusMessage: string; // e.g., "Active", "Below Threshold", "Not Found"
+  statusMessage: string; // e.g., "Active", "Below Threshold", "Exempt", "Not Found"
+  exemptUntil?: Date; // End of the member's leave-of-absence exemption, when exempt
   // Add tips later if needed
 }
 
@@ -831,12 +1471,6 @@ export async function getMemberStatus(): Promise<{
   console.log(`Authorized user ${userEmail} is fetching their status.`);
   // --- End Authorization Check --- 
 
-  // Check if the range is configured
-  if (!sheetMemberDataRange) {
-    console.error("GOOGLE_SHEET_MEMBER_DATA_RANGE environment variable is not set.");
-    return { success: false, message: "Configuration error: Member data sheet range is not set." };
-  }
-
   try {
     // --- Fetch Role Thresholds from DB --- 
     const thresholdsFromDb = await prisma.roleThreshold.findMany();
@@ -846,38 +1480,25 @@ export async function getMemberStatus(): Promise<{
     });
     // --- End Fetch Thresholds ---
 
-    // --- Fetch Sheet Data --- 
-    const rawData = await getSheetData(sheetMemberDataRange);
-    if (rawData === null) {
-      return { success: false, message: "Failed to fetch data from Google Sheet." };
-    }
-    // --- End Fetch Sheet Data ---
+    // --- Fetch Roster --- 
+    const roster = await loadRoster(['email', 'activityCount']);
+    // --- End Fetch Roster ---
 
-    // --- Find User in Sheet --- 
+    // --- Find User in Roster --- 
     let foundMember: ClubMemberData | null = null;
-    for (const row of rawData) {
-        const sheetEmail = row[COLUMN_INDICES.EMAIL];
+    for (const row of roster.rows) {
+        const sheetEmail = getRosterCell(roster, row, 'email');
         if (typeof sheetEmail === 'string' && sheetEmail.trim().toLowerCase() === userEmail.toLowerCase()) {
-            const activityCountValue = row[COLUMN_INDICES.ACTIVITY_COUNT];
-            const nameValue = row[COLUMN_INDICES.NAME];
-            const roleValue = row[COLUMN_INDICES.ROLE];
-            
-            let activityCount = 0; // Default if invalid
-            if (typeof activityCountValue === 'number') {
-                activityCount = activityCountValue;
-            } else if (typeof activityCountValue === 'string') {
-                const parsed = parseInt(activityCountValue, 10);
-                if (!isNaN(parsed)) {
-                    activityCount = parsed;
-                }
-            } // Else activityCount remains 0
+            const nameValue = getRosterCell(roster, row, 'name');
+            const roleValue = getRosterCell(roster, row, 'role');
 
             foundMember = {
                 name: typeof nameValue === 'string' ? nameValue : '',
                 email: sheetEmail.trim(),
-                activityCount: activityCount,
+                activityCount: parseActivityCount(getRosterCell(roster, row, 'activityCount')) ?? 0, // Default if invalid
                 role: typeof roleValue === 'string' ? roleValue.trim() : undefined,
-                rowIndex: -1 // Not relevant here
+                tags: parseTags(getRosterCell(roster, row, 'tags')),
+                rowIndex: row.rowIndex
             };
             break; // Stop searching
         }
@@ -902,7 +1523,9 @@ export async function getMemberStatus(): Promise<{
     const specificThreshold = roleThresholds.get(memberRoleLower);
     const effectiveThreshold = specificThreshold !== undefined ? specificThreshold : DEFAULT_ACTIVITY_THRESHOLD;
     
-    const statusMessage = foundMember.activityCount >= effectiveThreshold ? "Active" : "Below Threshold";
+    // An active leave of absence takes precedence over the activity count
+    const exemption = await findActiveExemption(foundMember.email);
+    const statusMessage = exemption ? "Exempt" : foundMember.activityCount >= effectiveThreshold ? "Active" : "Below Threshold";
     // --- End Threshold & Status --- 
 
     const memberStatus: MemberStatus = {
@@ -911,7 +1534,8 @@ export async function getMemberStatus(): Promise<{
         activityCount: foundMember.activityCount,
         role: foundMember.role, // Role from sheet
         effectiveThreshold: effectiveThreshold,
-        statusMessage: statusMessage
+        statusMessage: statusMessage,
+        exemptUntil: exemption?.endsAt
     };
     
     console.log(`Status for ${userEmail}: Count=${memberStatus.activityCount}, Role='${memberStatus.role}', Threshold=${memberStatus.effectiveThreshold}, Status='${memberStatus.statusMessage}'`);
@@ -919,6 +1543,9 @@ export async function getMemberStatus(): Promise<{
     return { success: true, message: "Fetched member status successfully.", status: memberStatus };
 
   } catch (error) {
+    if (error instanceof RosterError) {
+      return { success: false, message: error.message };
+    }
     console.error(`Error fetching member status for ${userEmail}:`, error);
     return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
   }
@@ -926,6 +1553,315 @@ export async function getMemberStatus(): Promise<{
 
 // --- End Member Status Action --- 
 
+// --- Server Action: Get Activity Exemptions ---
+export async function getExemptions(): Promise<{ success: boolean; message: string; exemptions?: ActivityExemption[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to fetch exemptions. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view exemptions." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const exemptions = await prisma.activityExemption.findMany({
+      orderBy: [{ endsAt: 'desc' }, { memberEmail: 'asc' }],
+    });
+    return { success: true, message: "Fetched exemptions.", exemptions };
+  } catch (error) {
+    console.error("Error fetching exemptions:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Create Activity Exemption ---
+export async function createExemption(input: {
+  memberEmail: string;
+  memberName?: string | null;
+  startsAt: string; // YYYY-MM-DD
+  endsAt: string; // YYYY-MM-DD (inclusive)
+  reason: string;
+}): Promise<{ success: boolean; message: string; exemption?: ActivityExemption }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to create exemption. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  // --- Validation --- 
+  const memberEmail = input.memberEmail.trim().toLowerCase();
+  const reason = input.reason.trim();
+  if (!memberEmail || !memberEmail.includes('@')) {
+      return { success: false, message: "Please enter a valid member email." };
+  }
+  if (!reason) {
+      return { success: false, message: "Please enter a reason for the exemption." };
+  }
+  const startsAt = parseExemptionDate(input.startsAt, 'start');
+  const endsAt = parseExemptionDate(input.endsAt, 'end');
+  if (!startsAt || !endsAt) {
+      return { success: false, message: "Start and end dates must be valid dates." };
+  }
+  if (endsAt < startsAt) {
+      return { success: false, message: "End date cannot be before the start date." };
+  }
+  // --- End Validation ---
+
+  try {
+    const exemption = await prisma.$transaction(async (tx) => {
+      const created = await tx.activityExemption.create({
+        data: {
+          memberEmail,
+          memberName: input.memberName?.trim() || null,
+          startsAt,
+          endsAt,
+          reason,
+          createdByEmail: adminUserEmail,
+        },
+      });
+
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'create_exemption',
+              details: { exemptionId: created.id, memberEmail, startsAt: input.startsAt, endsAt: input.endsAt, reason }
+          }
+      });
+
+      return created;
+    });
+
+    console.log(`Exemption created for ${memberEmail} (${input.startsAt} to ${input.endsAt}) by ${adminUserEmail}.`);
+    revalidatePath('/');
+    return { success: true, message: `Exemption added for ${memberEmail} (${input.startsAt} to ${input.endsAt}).`, exemption };
+  } catch (error) {
+    console.error(`Error creating exemption for ${memberEmail}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Delete Activity Exemption ---
+export async function deleteExemption(exemptionId: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to delete exemption. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    const deleted = await prisma.$transaction(async (tx) => {
+      const removed = await tx.activityExemption.delete({ where: { id: exemptionId } });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'delete_exemption',
+              details: { exemptionId, memberEmail: removed.memberEmail, reason: removed.reason }
+          }
+      });
+      return removed;
+    });
+
+    console.log(`Exemption ${exemptionId} for ${deleted.memberEmail} deleted by ${adminUserEmail}.`);
+    revalidatePath('/');
+    return { success: true, message: `Exemption for ${deleted.memberEmail} removed.` };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return { success: false, message: "Exemption not found. It may have already been removed." };
+    }
+    console.error(`Error deleting exemption ${exemptionId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Suppressed Addresses ---
+export async function getSuppressions(): Promise<{ success: boolean; message: string; suppressions?: EmailSuppression[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+      console.warn('Unauthorized attempt to fetch suppressions. User:', session?.user?.email);
+      return { success: false, message: "Unauthorized: You do not have permission to view the suppression list." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const suppressions = await prisma.emailSuppression.findMany({ orderBy: { createdAt: 'desc' } });
+    return { success: true, message: "Fetched suppression list.", suppressions };
+  } catch (error) {
+    console.error("Error fetching suppressions:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Remove an Address from the Suppression List ---
+export async function removeSuppression(email: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to remove suppression. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    await prisma.$transaction(async (tx) => {
+      const removed = await tx.emailSuppression.delete({ where: { email } });
+      await tx.adminLog.create({
+          data: {
+              adminUserId: adminUserId,
+              adminUserEmail: adminUserEmail,
+              action: 'remove_suppression',
+              details: { email, reason: removed.reason, detail: removed.detail }
+          }
+      });
+    });
+
+    console.log(`Suppression for ${email} removed by ${adminUserEmail}.`);
+    revalidatePath('/');
+    return { success: true, message: `${email} can be warned again.` };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025') {
+        return { success: false, message: "Address is not on the suppression list. It may have already been removed." };
+    }
+    console.error(`Error removing suppression for ${email}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Stored Webhook Events ---
+export async function getWebhookEvents(
+  page: number = 1,
+  pageSize: number = 20
+): Promise<{ success: boolean; message: string; events?: WebhookEvent[]; totalCount?: number; page?: number; pageSize?: number }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+    console.warn("Unauthorized attempt to fetch webhook events. User:", session?.user?.email);
+    return { success: false, message: "Unauthorized: You do not have permission to view webhook events." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const pageNumber = Math.max(1, page);
+    const size = Math.max(1, Math.min(50, pageSize));
+
+    const [events, totalCount] = await prisma.$transaction([
+      prisma.webhookEvent.findMany({
+        orderBy: { receivedAt: 'desc' },
+        skip: (pageNumber - 1) * size,
+        take: size,
+      }),
+      prisma.webhookEvent.count(),
+    ]);
+
+    return { success: true, message: "Fetched webhook events.", events, totalCount, page: pageNumber, pageSize: size };
+  } catch (error) {
+    console.error("Error fetching webhook events:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Reprocess a Stored Webhook Event ---
+export async function reprocessWebhookEvent(eventId: string): Promise<{ success: boolean; message: string }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id || !session.user.email || session.user.role !== Role.PANEL) {
+      console.warn("Unauthorized attempt to reprocess webhook event. User:", session?.user?.email);
+      return { success: false, message: "Unauthorized or missing user data for logging." };
+  }
+  const adminUserId = session.user.id;
+  const adminUserEmail = session.user.email;
+  // --- End Authorization Check ---
+
+  try {
+    const result = await replayWebhookEvent(eventId);
+    if (!result) {
+      return { success: false, message: "Webhook event not found." };
+    }
+
+    await prisma.adminLog.create({
+        data: {
+            adminUserId: adminUserId,
+            adminUserEmail: adminUserEmail,
+            action: 'reprocess_webhook_event',
+            details: { eventId, outcomeStatus: result.status, outcomeMessage: result.message }
+        }
+    });
+
+    console.log(`Webhook event ${eventId} reprocessed by ${adminUserEmail} (status ${result.status}).`);
+    revalidatePath('/');
+    const succeeded = result.status < 400;
+    return { success: succeeded, message: succeeded ? `Event reprocessed: ${result.message}` : `Reprocessing failed (${result.status}): ${result.message}` };
+  } catch (error) {
+    console.error(`Error reprocessing webhook event ${eventId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Activity History (Snapshots) ---
+interface ActivityHistoryEntry {
+  runId: string;
+  activityCount: number;
+  threshold: number;
+  belowThreshold: boolean;
+  role: string | null;
+  createdAt: Date;
+}
+
+const ACTIVITY_HISTORY_LIMIT = 20;
+
+export async function getActivityHistory(memberEmail?: string | null): Promise<{
+    success: boolean;
+    message: string;
+    history?: ActivityHistoryEntry[];
+}> {
+  // --- Authorization Check --- 
+  // Members can view their own history; panel members can view anyone's
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.email) {
+      console.warn("Unauthorized or incomplete session for getActivityHistory.");
+      return { success: false, message: "Authentication required." };
+  }
+  const targetEmail = (memberEmail || session.user.email).trim().toLowerCase();
+  if (targetEmail !== session.user.email.toLowerCase() && session.user.role !== Role.PANEL) {
+      console.warn(`Unauthorized attempt by ${session.user.email} to view activity history of ${targetEmail}.`);
+      return { success: false, message: "Unauthorized: You can only view your own activity history." };
+  }
+  // --- End Authorization Check --- 
+
+  try {
+    const history = await prisma.activitySnapshot.findMany({
+      where: { memberEmail: targetEmail },
+      orderBy: { createdAt: 'desc' },
+      take: ACTIVITY_HISTORY_LIMIT,
+      select: {
+        runId: true,
+        activityCount: true,
+        threshold: true,
+        belowThreshold: true,
+        role: true,
+        createdAt: true,
+      },
+    });
+    return { success: true, message: "Fetched activity history.", history };
+  } catch (error) {
+    console.error(`Error fetching activity history for ${targetEmail}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+// --- End Get Activity History Action --- 
+
 // --- Server Action: Get Warning Logs --- 
 
 // Define valid sortable fields and directions
@@ -942,6 +1878,8 @@ interface WarningLogResponse {
   pageSize?: number;
   filterStatus?: EmailStatus | null; // Track applied filter
   sortBy?: string | null; // Track applied sort
+  currentStages?: Record<string, number>; // Recipient email -> stage of their latest warning
+  templateVersions?: Record<string, number>; // Template version id -> version number
 }
 
 export async function getWarningLogs(
@@ -1006,6 +1944,20 @@ export async function getWarningLogs(
 
     console.log(`Fetched ${logs.length} logs out of ${totalCount} total (matching filter).`);
 
+    // Current escalation stage of each member on this page (their most recent warning, any status)
+    const latestWarnings = await prisma.warningLog.findMany({
+      where: { recipientEmail: { in: Array.from(new Set(logs.map(log => log.recipientEmail))) } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['recipientEmail'],
+      select: { recipientEmail: true, stage: true },
+    });
+    const currentStages = Object.fromEntries(latestWarnings.map(w => [w.recipientEmail, w.stage]));
+
+    // Version number of the template each warning on this page was rendered from
+    const versionIds = Array.from(new Set(logs.map(log => log.templateVersionId).filter((id): id is string => id !== null)));
+    const versions = await prisma.emailTemplateVersion.findMany({ where: { id: { in: versionIds } }, select: { id: true, version: true } });
+    const templateVersions = Object.fromEntries(versions.map(v => [v.id, v.version]));
+
     return {
       success: true,
       message: "Fetched warning logs.",
@@ -1014,7 +1966,9 @@ export async function getWarningLogs(
       page: pageNumber,
       pageSize: size,
       filterStatus: filterStatus,
-      sortBy: sortBy
+      sortBy: sortBy,
+      currentStages,
+      templateVersions
     };
   } catch (error) {
     console.error("Error fetching warning logs:", error);
@@ -1127,6 +2081,65 @@ export async function getAdminLogs(
 }
 // --- End Get Admin Logs Action --- 
 
+// --- Server Action: Get Activity Check Runs ---
+// Run summaries without the error lists, which can be large; see getActivityCheckRunErrors
+type ActivityCheckRunSummary = Omit<ActivityCheckRun, 'errors'>;
+
+export async function getActivityCheckRuns(
+  page: number = 1,
+  pageSize: number = 10
+): Promise<{ success: boolean; message: string; runs?: ActivityCheckRunSummary[]; totalCount?: number; page?: number; pageSize?: number }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+    console.warn("Unauthorized attempt to fetch activity check runs. User:", session?.user?.email);
+    return { success: false, message: "Unauthorized: You do not have permission to view check runs." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const pageNumber = Math.max(1, page);
+    const size = Math.max(1, Math.min(50, pageSize));
+
+    const [runs, totalCount] = await prisma.$transaction([
+      prisma.activityCheckRun.findMany({
+        orderBy: { startedAt: 'desc' },
+        skip: (pageNumber - 1) * size,
+        take: size,
+        omit: { errors: true },
+      }),
+      prisma.activityCheckRun.count(),
+    ]);
+
+    return { success: true, message: "Fetched check runs.", runs, totalCount, page: pageNumber, pageSize: size };
+  } catch (error) {
+    console.error("Error fetching activity check runs:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+// --- Server Action: Get Error Report for a Check Run ---
+export async function getActivityCheckRunErrors(runId: string): Promise<{ success: boolean; message: string; errorsList?: SheetError[] }> {
+  // --- Authorization Check --- 
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== Role.PANEL) {
+    console.warn("Unauthorized attempt to fetch check run errors. User:", session?.user?.email);
+    return { success: false, message: "Unauthorized: You do not have permission to view check runs." };
+  }
+  // --- End Authorization Check ---
+
+  try {
+    const run = await prisma.activityCheckRun.findUnique({ where: { id: runId }, select: { errors: true } });
+    if (!run) {
+      return { success: false, message: "Check run not found." };
+    }
+    return { success: true, message: "Fetched check run errors.", errorsList: (run.errors ?? []) as unknown as SheetError[] };
+  } catch (error) {
+    console.error(`Error fetching errors for check run ${runId}:`, error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
 // --- Server Action: Get Analytics Data --- 
 interface AnalyticsStatusData {
   activeCount: number;
@@ -1151,12 +2164,6 @@ export async function getAnalyticsData(): Promise<{
   console.log(`Authorized user ${session.user.email} is fetching analytics data.`);
   // --- End Authorization Check ---
 
-  // Check if the range is configured
-  if (!sheetMemberDataRange) {
-    console.error("GOOGLE_SHEET_MEMBER_DATA_RANGE environment variable is not set.");
-    return { success: false, message: "Member data sheet range is not configured." };
-  }
-
   try {
     // --- Fetch Role Thresholds --- 
     const thresholdsFromDb = await prisma.roleThreshold.findMany();
@@ -1166,15 +2173,12 @@ export async function getAnalyticsData(): Promise<{
     });
     // --- End Fetch Thresholds ---
 
-    // --- Fetch Sheet Data --- 
-    const rawData = await getSheetData(sheetMemberDataRange);
-    if (rawData === null) {
-      return { success: false, message: "Failed to fetch data from Google Sheet." };
-    }
-    if (rawData.length === 0) {
+    // --- Fetch Roster --- 
+    const roster = await loadRoster(['activityCount']);
+    if (roster.rows.length === 0) {
         return { success: true, message: "No member data found.", data: { activeCount: 0, belowThresholdCount: 0, totalMembers: 0 } };
     }
-    // --- End Fetch Sheet Data ---
+    // --- End Fetch Roster ---
 
     let activeCount = 0;
     let belowThresholdCount = 0;
@@ -1183,20 +2187,15 @@ export async function getAnalyticsData(): Promise<{
     const distributionBins = { '0-2': 0, '3-5': 0, '6-8': 0, '9+': 0 };
 
     // --- Process Data --- 
-    rawData.forEach((row) => {
-      const activityCountValue = row[COLUMN_INDICES.ACTIVITY_COUNT];
-      const roleValue = row[COLUMN_INDICES.ROLE];
+    roster.rows.forEach((row) => {
+      const activityCountValue = getRosterCell(roster, row, 'activityCount');
+      const roleValue = getRosterCell(roster, row, 'role');
 
       // Basic validation (simplified for analytics - might need refinement)
-      let activityCount = 0;
-      if (typeof activityCountValue === 'number') {
-        activityCount = activityCountValue;
-      } else if (typeof activityCountValue === 'string') {
-        const parsed = parseInt(activityCountValue, 10);
-        if (!isNaN(parsed)) activityCount = parsed;
-      } else { 
+      if (typeof activityCountValue !== 'number' && typeof activityCountValue !== 'string') {
           return; // Skip row if activity count is invalid type
       }
+      const activityCount = parseActivityCount(activityCountValue) ?? 0;
 
       processedCount++; // Count rows with valid activity counts
 
@@ -1234,6 +2233,9 @@ export async function getAnalyticsData(): Promise<{
     return { success: true, message: "Fetched analytics data.", data: analyticsData };
 
   } catch (error) {
+    if (error instanceof RosterError) {
+      return { success: false, message: error.message };
+    }
     console.error("Error fetching analytics data:", error);
     return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
   }
@@ -1295,7 +2297,9 @@ export async function getDashboardSummary(): Promise<{
 // --- End Get Dashboard Summary Action --- 
 
 // --- Server Action: Approve All Queued Emails ---
-export async function approveAllQueuedEmails(): Promise<{ 
+export async function approveAllQueuedEmails(
+    sendAt?: string | null // Optional ISO send time for every approved email; omitted = next queue run
+): Promise<{ 
     success: boolean; 
     message: string; 
     approvedCount?: number 
@@ -1313,45 +2317,45 @@ export async function approveAllQueuedEmails(): Promise<{
     console.log(`Authorized user ${adminUserEmail} (ID: ${adminUserId}) is attempting to approve all queued emails.`);
     // --- End Authorization Check ---
 
+    const scheduledAt = parseScheduledAt(sendAt);
+    if (scheduledAt === undefined) {
+        return { success: false, message: "Invalid send time specified." };
+    }
+
     try {
         // Find all queued emails first to know which warning logs to update
         const queuedEmails = await prisma.emailQueue.findMany({
             where: { status: EmailStatus.QUEUED },
-            select: { id: true, recipientEmail: true, template: true } // Select info needed for warning log update
+            select: { id: true }
         });
 
         const emailIdsToApprove = queuedEmails.map(e => e.id);
-        const approvedCount = emailIdsToApprove.length;
 
-        if (approvedCount === 0) {
+        if (emailIdsToApprove.length === 0) {
             return { success: true, message: "No emails were pending approval.", approvedCount: 0 };
         }
 
-        console.log(`Found ${approvedCount} emails to approve.`);
+        console.log(`Found ${emailIdsToApprove.length} emails to approve.`);
 
         // Use a transaction for atomicity
-        await prisma.$transaction(async (tx) => {
-            // 1. Update EmailQueue status for all found IDs
-            await tx.emailQueue.updateMany({
+        const approvedIds = await prisma.$transaction(async (tx) => {
+            // 1. Approve the found emails that are still QUEUED (one edited or cancelled meanwhile is left alone)
+            const approved = await tx.emailQueue.updateManyAndReturn({
                 where: { 
-                    id: { in: emailIdsToApprove } 
+                    id: { in: emailIdsToApprove },
+                    status: EmailStatus.QUEUED,
                 },
-                data: { status: EmailStatus.APPROVED },
+                data: { status: EmailStatus.APPROVED, scheduledAt },
+                select: { id: true },
             });
+            const ids = approved.map(e => e.id);
+            if (ids.length === 0) return ids;
 
-            // 2. Update corresponding WarningLog status
-            // Need to iterate or use complex condition if templates/emails aren't unique per queue entry
-            // For simplicity assuming we update based on the emails found
-            for (const email of queuedEmails) {
-                 await tx.warningLog.updateMany({
-                    where: {
-                      recipientEmail: email.recipientEmail,
-                      templateUsed: email.template,
-                      status: EmailStatus.QUEUED, // Only update logs that were queued
-                    },
-                    data: { status: EmailStatus.APPROVED }, 
-                });
-            }
+            // 2. Update the WarningLog rows linked to those emails
+            await tx.warningLog.updateMany({
+                where: { emailQueueId: { in: ids } },
+                data: { status: EmailStatus.APPROVED },
+            });
 
             // 3. Create a single AdminLog entry for the bulk action
             await tx.adminLog.create({
@@ -1360,12 +2364,19 @@ export async function approveAllQueuedEmails(): Promise<{
                     adminUserEmail: adminUserEmail,
                     action: 'approved_all_queued_emails',
                     details: { 
-                        approvedCount: approvedCount,
-                        emailIds: emailIdsToApprove // Store IDs if needed, careful with large numbers
+                        approvedCount: ids.length,
+                        emailIds: ids, // Store IDs if needed, careful with large numbers
+                        scheduledAt: scheduledAt?.toISOString() ?? null
                     } 
                 }
             });
+            return ids;
         });
+        const approvedCount = approvedIds.length;
+
+        if (approvedCount === 0) {
+            return { success: true, message: "No emails were pending approval.", approvedCount: 0 };
+        }
 
         console.log(`Successfully approved ${approvedCount} emails and updated related warning logs. Admin log created.`);
         
@@ -1377,7 +2388,8 @@ export async function approveAllQueuedEmails(): Promise<{
         await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { triggeredBy: 'approveAll' }); 
         // --- End Trigger --- 
 
-        return { success: true, message: `Successfully approved ${approvedCount} emails.`, approvedCount: approvedCount };
+        const scheduleNote = scheduledAt ? ` They are scheduled for ${scheduledAt.toISOString()}.` : '';
+        return { success: true, message: `Successfully approved ${approvedCount} emails.${scheduleNote}`, approvedCount: approvedCount };
 
     } catch (error) {
         console.error(`Error approving all queued emails:`, error);
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { checkMemberActivity } from '@/app/actions';
+import { runActivityCheck } from '@/lib/activityCheck';
+import { getCronActor, getActorLabel } from '@/lib/actor';
 
 // Simple GET handler for Vercel Cron
 export async function GET(request: Request) {
@@ -23,15 +24,17 @@ export async function GET(request: Request) {
   // --- End Security Check ---
 
   try {
-    console.log("Executing checkMemberActivity action...");
-    const result = await checkMemberActivity(); 
-    console.log("checkMemberActivity result:", result.message);
+    // Cron requests have no browser session, so run the check as the cron service identity
+    const actor = getCronActor();
+    console.log(`Executing activity check as ${getActorLabel(actor)}...`);
+    const result = await runActivityCheck(actor);
+    console.log("Activity check result:", result.message);
     
-    // Return the result from the action
-    return NextResponse.json(result, { status: result.success ? 200 : 500 });
+    // 409 when another run already holds the activity check lock
+    return NextResponse.json(result, { status: result.success ? 200 : result.inProgress ? 409 : 500 });
 
   } catch (error) {
-    console.error("Error executing checkMemberActivity from cron:", error);
+    console.error("Error executing activity check from cron:", error);
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ success: false, message: `Cron job failed: ${message}` }, { status: 500 });
   }
@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
-import { processEmailQueue } from '@/app/actions'; // Import the server action
-import { triggerPusherEvent } from '@/lib/pusher'; // Import pusher helper
+import { runEmailQueue } from '@/lib/emailQueue';
+import { getCronActor, getActorLabel } from '@/lib/actor';
 
 // Simple GET handler for Vercel Cron
 export async function GET(request: Request) {
@@ -24,21 +24,17 @@ export async function GET(request: Request) {
   // --- End Security Check ---
 
   try {
-    console.log("Executing processEmailQueue action...");
-    const result = await processEmailQueue();
-    console.log("processEmailQueue result:", result.message);
-    
-    // Trigger Pusher event IF emails were processed (regardless of sent/failed count)
-    if (result.success && result.processed && result.processed > 0) {
-        // Use a generic event type or a specific one for cron processing
-        await triggerPusherEvent('admin-updates', 'email-queue-updated', { triggeredBy: 'processQueueCron' });
-    }
+    // Cron requests have no browser session, so process the queue as the cron service identity
+    const actor = getCronActor();
+    console.log(`Executing email queue processing as ${getActorLabel(actor)}...`);
+    const result = await runEmailQueue(actor);
+    console.log("Email queue processing result:", result.message);
 
-    // Return the result from the action
-    return NextResponse.json(result, { status: result.success ? 200 : 500 });
+    // 409 when another run already holds the queue lock
+    return NextResponse.json(result, { status: result.success ? 200 : result.inProgress ? 409 : 500 });
 
   } catch (error) {
-    console.error("Error executing processEmailQueue from cron:", error);
+    console.error("Error executing email queue processing from cron:", error);
     const message = error instanceof Error ? error.message : 'Unknown error';
     return NextResponse.json({ success: false, message: `Cron job failed: ${message}` }, { status: 500 });
   }
@@ -1,100 +1,54 @@
 import { NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-
-// --- Define types for Resend Webhook Payload ---
-interface ResendWebhookData {
-  email_id: string;
-  created_at: string; // Received as string
-}
-
-interface ResendWebhookPayload {
-  type: string;
-  data?: ResendWebhookData;
-}
-// --- End Type Definitions ---
+import { recordAndProcessEvent, ResendWebhookPayload } from '@/lib/resendWebhook';
+import { verifySvixSignature } from '@/lib/webhookSignature';
 
 /**
  * Resend Webhook Handler
- * 
- * Handles incoming webhook events from Resend, specifically 'email.opened'.
- * Updates the database to mark emails as opened.
+ *
+ * Handles incoming webhook events from Resend: opens, deliveries, delays, bounces and complaints.
+ * Requests must carry a valid Svix signature for RESEND_WEBHOOK_SECRET; unsigned requests are only
+ * accepted when the secret is unset and RESEND_WEBHOOK_ALLOW_UNSIGNED=true (local testing). Every accepted event is
+ * stored in webhook_events with its outcome so it can be audited and replayed from the panel.
  */
 export async function POST(request: Request) {
   console.log("Resend webhook received...");
 
+  // The signature covers the exact bytes sent, so read the body as text before parsing
+  const rawBody = await request.text();
+
+  // --- Signature Check ---
+  const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
+  // Unsigned events can suppress addresses, so accepting them takes an explicit opt-in, not just a non-production NODE_ENV
+  const allowUnsigned = process.env.RESEND_WEBHOOK_ALLOW_UNSIGNED === 'true';
+
+  if (!webhookSecret) {
+    if (!allowUnsigned) {
+      console.error("RESEND_WEBHOOK_SECRET is not set and RESEND_WEBHOOK_ALLOW_UNSIGNED is not 'true'. Rejecting webhook.");
+      return new NextResponse('Unauthorized', { status: 401 });
+    }
+    console.warn("RESEND_WEBHOOK_SECRET is not set. Accepting unsigned webhook because RESEND_WEBHOOK_ALLOW_UNSIGNED=true.");
+  } else {
+    const check = verifySvixSignature(webhookSecret, {
+      id: request.headers.get('svix-id'),
+      timestamp: request.headers.get('svix-timestamp'),
+      signature: request.headers.get('svix-signature'),
+    }, rawBody);
+    if (!check.valid) {
+      console.warn(`Rejected Resend webhook with an invalid signature: ${check.reason}`);
+      return new NextResponse('Invalid signature', { status: 401 });
+    }
+  }
+  // --- End Signature Check ---
+
   let payload: ResendWebhookPayload;
   try {
     // Use type assertion after parsing
-    payload = await request.json() as ResendWebhookPayload;
-    // console.log("Webhook payload:", JSON.stringify(payload, null, 2)); // Log the full payload for debugging if needed
+    payload = JSON.parse(rawBody) as ResendWebhookPayload;
   } catch (error) {
     console.error("Error parsing webhook payload:", error);
     return new NextResponse('Invalid request body', { status: 400 });
   }
 
-  // Check the event type
-  const eventType = payload?.type;
-  const data = payload?.data;
-
-  if (eventType === 'email.opened' && data) {
-    const resendMessageId = data.email_id;
-    const openedTimestamp = data.created_at ? new Date(data.created_at) : new Date();
-
-    if (!resendMessageId) {
-      console.warn("Webhook 'email.opened' event missing email_id.");
-      return new NextResponse('Missing email_id in payload', { status: 400 });
-    }
-
-    console.log(`Processing 'email.opened' event for Resend ID: ${resendMessageId}`);
-
-    try {
-      // Find the EmailQueue entry using the Resend message ID
-      // Use findFirst instead of findUnique as resendMessageId is indexed but not strictly unique in the schema
-      const emailEntry = await prisma.emailQueue.findFirst({
-        where: { resendMessageId: resendMessageId },
-        select: { id: true, recipientEmail: true, template: true, openedAt: true }, // Select necessary fields
-      });
-
-      if (!emailEntry) {
-        console.warn(`No EmailQueue entry found for Resend ID: ${resendMessageId}`);
-        // Still return 200 OK to Resend, as we can't process this specific ID
-        return new NextResponse('Email entry not found, but acknowledged', { status: 200 });
-      }
-
-      // Avoid updating if already marked as opened (optional, but good practice)
-      if (emailEntry.openedAt) {
-        console.log(`Email ${emailEntry.id} (Resend ID: ${resendMessageId}) already marked as opened at ${emailEntry.openedAt}. Skipping update.`);
-        return new NextResponse('Event acknowledged, email already marked opened.', { status: 200 });
-      }
-
-      // Update the EmailQueue and WarningLog in a transaction
-      await prisma.$transaction([
-        prisma.emailQueue.update({
-          where: { id: emailEntry.id },
-          data: { openedAt: openedTimestamp },
-        }),
-        prisma.warningLog.updateMany({
-          where: {
-            recipientEmail: emailEntry.recipientEmail,
-            templateUsed: emailEntry.template,
-            // Optionally, only update logs associated with SENT emails
-            // status: EmailStatus.SENT 
-          },
-          data: { emailOpened: true },
-        }),
-      ]);
-
-      console.log(`Successfully marked email ${emailEntry.id} (Resend ID: ${resendMessageId}) and associated warning log(s) as opened.`);
-      return new NextResponse('Webhook processed successfully', { status: 200 });
-
-    } catch (dbError) {
-      console.error(`Database error processing 'email.opened' event for Resend ID ${resendMessageId}:`, dbError);
-      return new NextResponse('Internal Server Error during webhook processing', { status: 500 });
-    }
-
-  } else {
-    // Handle other event types or ignore them
-    console.log(`Ignoring webhook event type: ${eventType || 'unknown'}`);
-    return new NextResponse('Event type not handled or payload invalid', { status: 200 }); // Still return 200 for unhandled types
-  }
-} 
\ No newline at end of file
+  const result = await recordAndProcessEvent(request.headers.get('svix-id'), payload);
+  return new NextResponse(result.message, { status: result.status });
+}
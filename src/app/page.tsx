@@ -4,7 +4,16 @@ import { useState, useEffect } from 'react'; // <-- Import useState and useEffec
 import { useSession, signIn, signOut } from "next-auth/react";
 import Image from "next/image";
 import EmailQueueManager from "@/components/EmailQueueManager";
+import EmailOutbox from "@/components/EmailOutbox";
 import ThresholdManager from "@/components/ThresholdManager"; // <-- Import the new component
+import RewarnPolicyManager from "@/components/RewarnPolicyManager";
+import TemplateEditor from "@/components/TemplateEditor";
+import TemplateRuleManager from "@/components/TemplateRuleManager";
+import SenderIdentityManager from "@/components/SenderIdentityManager";
+import ExemptionManager from "@/components/ExemptionManager";
+import SuppressionList from "@/components/SuppressionList";
+import WebhookEventViewer from "@/components/WebhookEventViewer";
+import CheckRunViewer from "@/components/CheckRunViewer";
 import WarningLogViewer from "@/components/WarningLogViewer"; // <-- Import the new component
 import AdminLogViewer from "@/components/AdminLogViewer"; // <-- Import the new component
 import AnalyticsViewer from "@/components/AnalyticsViewer"; // <-- Import the new component
@@ -37,8 +46,26 @@ export default function Home() {
     switch (activeView) {
       case 'queue':
         return <EmailQueueManager />;
+      case 'outbox':
+        return <EmailOutbox />;
       case 'thresholds':
         return <ThresholdManager />;
+      case 'rewarnPolicy':
+        return <RewarnPolicyManager />;
+      case 'templates':
+        return <TemplateEditor />;
+      case 'templateRules':
+        return <TemplateRuleManager />;
+      case 'senders':
+        return <SenderIdentityManager />;
+      case 'exemptions':
+        return <ExemptionManager />;
+      case 'suppressions':
+        return <SuppressionList />;
+      case 'webhookEvents':
+        return <WebhookEventViewer />;
+      case 'checkRuns':
+        return <CheckRunViewer />;
       case 'warnings':
         return <WarningLogViewer />;
       case 'adminLogs':
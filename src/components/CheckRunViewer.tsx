@@ -0,0 +1,245 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getActivityCheckRuns, getActivityCheckRunErrors } from '@/app/actions';
+
+const PAGE_SIZE = 10;
+
+// Local type matching the run summaries returned by getActivityCheckRuns
+interface CheckRun {
+  id: string;
+  trigger: string;
+  triggeredBy: string;
+  startedAt: Date;
+  durationMs: number;
+  success: boolean;
+  message: string;
+  checkedCount: number;
+  belowThresholdCount: number;
+  flaggedCount: number;
+  escalatedCount: number;
+  exemptedCount: number;
+  errorCount: number;
+}
+
+// Interface for sheet errors stored with a run
+interface SheetError {
+    rowIndex: number;
+    reason: string;
+    name?: string | null;
+    rowData: (string | number | boolean | null)[];
+}
+
+// Helper to format a duration in milliseconds
+const formatDuration = (ms: number): string => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export default function CheckRunViewer() {
+  const [runs, setRuns] = useState<CheckRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFetching, startFetchingTransition] = useTransition();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+
+  // Error report of the selected run
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [runErrors, setRunErrors] = useState<SheetError[]>([]);
+  const [runErrorsMessage, setRunErrorsMessage] = useState<string | null>(null);
+  const [isLoadingErrors, startErrorsTransition] = useTransition();
+
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+
+  const fetchRuns = useCallback((page: number) => {
+    startFetchingTransition(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await getActivityCheckRuns(page, PAGE_SIZE);
+        if (result.success && result.runs) {
+          setRuns(result.runs.map(run => ({ ...run, startedAt: new Date(run.startedAt) })));
+          setTotalCount(result.totalCount || 0);
+          setCurrentPage(result.page || 1);
+        } else {
+          setError(result.message || "Failed to fetch check runs.");
+          setRuns([]);
+          setTotalCount(0);
+        }
+      } catch (err) {
+        setError("An unexpected client-side error occurred while fetching check runs.");
+        console.error("Error fetching check runs:", err);
+        setRuns([]);
+        setTotalCount(0);
+      } finally {
+        setIsLoading(false);
+      }
+    });
+  }, [startFetchingTransition]);
+
+  useEffect(() => {
+    fetchRuns(1);
+  }, [fetchRuns]);
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage >= 1 && newPage <= totalPages && newPage !== currentPage) {
+      fetchRuns(newPage);
+    }
+  };
+
+  const handleShowErrors = (runId: string) => {
+    if (selectedRunId === runId) {
+      setSelectedRunId(null); // Toggle off
+      return;
+    }
+    setSelectedRunId(runId);
+    setRunErrors([]);
+    setRunErrorsMessage(null);
+    startErrorsTransition(async () => {
+      try {
+        const result = await getActivityCheckRunErrors(runId);
+        if (result.success && result.errorsList) {
+          setRunErrors(result.errorsList);
+        } else {
+          setRunErrorsMessage(result.message || "Failed to load the error report.");
+        }
+      } catch (err) {
+        setRunErrorsMessage("An unexpected client-side error occurred while loading the error report.");
+        console.error(err);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Activity Check Runs</h2>
+
+      {isLoading && <p>Loading check runs...</p>}
+      {error && <p className="text-red-600">Error: {error}</p>}
+
+      {!isLoading && !error && runs.length === 0 && (
+        <p>No activity check runs recorded yet.</p>
+      )}
+
+      {!isLoading && !error && runs.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Started</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Trigger</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Duration</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Checked</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Below</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Flagged</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider hidden lg:table-cell">Exempted</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Errors</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Result</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {runs.map(run => (
+                <tr key={run.id} className={`hover:bg-gray-50 ${selectedRunId === run.id ? 'bg-indigo-50' : ''}`}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-700">{run.startedAt.toLocaleString()}</td>
+                  <td className="px-3 py-2 whitespace-normal">
+                    <div className="capitalize">{run.trigger}</div>
+                    <div className="text-xs text-gray-500 break-all">{run.triggeredBy}</div>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500 hidden md:table-cell">{formatDuration(run.durationMs)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">{run.checkedCount}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">{run.belowThresholdCount}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700" title={`${run.escalatedCount} escalation(s)`}>{run.flaggedCount}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700 hidden lg:table-cell">{run.exemptedCount}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center">
+                    {run.errorCount > 0 ? (
+                      <button
+                        onClick={() => handleShowErrors(run.id)}
+                        className="text-red-700 font-medium underline hover:text-red-900"
+                      >
+                        {run.errorCount}
+                      </button>
+                    ) : (
+                      <span className="text-gray-400">0</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-normal">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${run.success ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                      {run.success ? 'Completed' : 'Failed'}
+                    </span>
+                    {!run.success && <div className="text-xs text-red-700 mt-1">{run.message}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* --- Error Report of the Selected Run --- */}
+      {selectedRunId && (
+        <div className="pt-4 border-t border-red-200 w-full bg-red-50 p-4 rounded-lg">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-semibold text-red-800">Error Report</h3>
+            <button
+              onClick={() => setSelectedRunId(null)}
+              className="text-gray-400 hover:text-gray-600 text-2xl leading-none font-light"
+              aria-label="Close error report"
+            >
+              &times;
+            </button>
+          </div>
+          {isLoadingErrors && <p className="text-sm text-gray-600">Loading error report...</p>}
+          {runErrorsMessage && <p className="text-sm text-red-700">Error: {runErrorsMessage}</p>}
+          {!isLoadingErrors && !runErrorsMessage && runErrors.length === 0 && (
+            <p className="text-sm text-gray-600">No row errors were stored for this run.</p>
+          )}
+          {!isLoadingErrors && runErrors.length > 0 && (
+            <div className="overflow-x-auto max-h-80 border border-red-300 rounded-md bg-white shadow-sm">
+              <table className="min-w-full divide-y divide-red-200 text-sm">
+                <thead className="bg-red-100 sticky top-0 z-10">
+                  <tr>
+                    <th scope="col" className="px-3 py-2 text-left font-medium text-red-900 uppercase tracking-wider">Row</th>
+                    <th scope="col" className="px-3 py-2 text-left font-medium text-red-900 uppercase tracking-wider">Name (from Sheet)</th>
+                    <th scope="col" className="px-3 py-2 text-left font-medium text-red-900 uppercase tracking-wider">Reason</th>
+                    <th scope="col" className="px-3 py-2 text-left font-medium text-red-900 uppercase tracking-wider">Raw Row Data</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-red-100">
+                  {runErrors.map((err, index) => (
+                    <tr key={`${err.rowIndex}-${index}`} className="hover:bg-red-50">
+                      <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-900">{err.rowIndex}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-700">{err.name || 'N/A'}</td>
+                      <td className="px-3 py-2 whitespace-normal text-red-800 font-medium">{err.reason}</td>
+                      <td className="px-3 py-2 whitespace-normal text-gray-500 font-mono text-xs break-words">{JSON.stringify(err.rowData)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* --- Pagination Controls --- */}
+      {!isLoading && !error && totalPages > 1 && (
+          <div className="flex justify-between items-center mt-4 text-sm">
+              <button
+                onClick={() => handlePageChange(currentPage - 1)}
+                disabled={currentPage <= 1 || isFetching}
+                className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                &larr; Previous
+              </button>
+              <span className="text-gray-600">
+                Page {currentPage} of {totalPages} (Total: {totalCount})
+              </span>
+              <button
+                onClick={() => handlePageChange(currentPage + 1)}
+                disabled={currentPage >= totalPages || isFetching}
+                className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next &rarr;
+              </button>
+          </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useState, useEffect, useTransition } from 'react';
+import { getEditableEmail, editQueuedEmail } from '@/app/actions';
+import { ArrowPathIcon } from '@/components/icons';
+
+// Local type matching the email returned by getEditableEmail
+interface EditableEmail {
+  id: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  subject: string;
+  bodyHtml: string;
+  template: string;
+  templateVariables: { name: string; activityCount: number; threshold: number } | null;
+  originalSubject: string | null;
+  originalBodyHtml: string | null;
+  editedAt: Date | null;
+  editedBy: string | null;
+}
+
+type EditMode = 'variables' | 'html';
+
+interface EmailEditorProps {
+  emailId: string;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+export default function EmailEditor({ emailId, onClose, onSaved }: EmailEditorProps) {
+  const [email, setEmail] = useState<EditableEmail | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [showOriginal, setShowOriginal] = useState(false);
+
+  // Form state
+  const [subject, setSubject] = useState('');
+  const [mode, setMode] = useState<EditMode>('variables');
+  const [name, setName] = useState('');
+  const [activityCount, setActivityCount] = useState('');
+  const [threshold, setThreshold] = useState('');
+  const [bodyHtml, setBodyHtml] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const result = await getEditableEmail(emailId);
+        if (cancelled) return;
+        if (result.success && result.email) {
+          const loaded = result.email;
+          setEmail(loaded);
+          setSubject(loaded.subject);
+          setBodyHtml(loaded.bodyHtml);
+          if (loaded.templateVariables) {
+            setName(loaded.templateVariables.name);
+            setActivityCount(loaded.templateVariables.activityCount.toString());
+            setThreshold(loaded.templateVariables.threshold.toString());
+          } else {
+            setMode('html'); // Emails queued before variables were stored can only be edited as HTML
+          }
+        } else {
+          setLoadError(result.message || "Failed to load the email.");
+        }
+      } catch (err) {
+        if (!cancelled) setLoadError("An unexpected client-side error occurred while loading the email.");
+        console.error(err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [emailId]);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!email) return;
+    startSaveTransition(async () => {
+      setSaveError(null);
+      try {
+        const result = await editQueuedEmail({
+          emailId,
+          subject,
+          variables: mode === 'variables' && email.templateVariables
+            ? { name, activityCount: Number(activityCount), threshold: Number(threshold) }
+            : null,
+          bodyHtml: mode === 'html' && bodyHtml !== email.bodyHtml ? bodyHtml : null,
+        });
+        if (result.success) {
+          onSaved(result.message);
+        } else {
+          setSaveError(result.message);
+        }
+      } catch (err) {
+        setSaveError("An unexpected client-side error occurred while saving the email.");
+        console.error(err);
+      }
+    });
+  };
+
+  const inputClassName = "mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white dark:bg-gray-800 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] flex flex-col border dark:border-gray-700"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside modal
+      >
+        {/* Modal Header */}
+        <div className="flex justify-between items-center border-b border-gray-200 dark:border-gray-700 p-4 flex-shrink-0">
+          <div>
+            <h3 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Edit Email</h3>
+            {email && <p className="text-sm text-gray-500 dark:text-gray-400">To {email.recipientName || 'N/A'} &lt;{email.recipientEmail}&gt; · {email.template}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-3xl leading-none font-light"
+            aria-label="Close editor"
+          >
+            &times;
+          </button>
+        </div>
+
+        {/* Modal Body (Scrollable) */}
+        <div className="p-6 overflow-y-auto flex-grow">
+          {!email && !loadError && (
+            <div className="text-center py-10 text-gray-500 dark:text-gray-400"><ArrowPathIcon className="animate-spin h-6 w-6 text-blue-500 mx-auto" /> Loading email...</div>
+          )}
+          {loadError && <p className="text-red-600 dark:text-red-400">Error: {loadError}</p>}
+
+          {email && (
+            <form id="emailEditForm" onSubmit={handleSubmit} className="flex flex-col gap-4">
+              <div>
+                <label htmlFor="editSubject" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Subject</label>
+                <input type="text" id="editSubject" value={subject} onChange={(e) => setSubject(e.target.value)} required className={inputClassName} />
+              </div>
+
+              {/* Mode Toggle */}
+              <div className="flex gap-4 text-sm">
+                <label className="inline-flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                  <input type="radio" name="editMode" checked={mode === 'variables'} onChange={() => setMode('variables')} disabled={!email.templateVariables} />
+                  Template variables
+                </label>
+                <label className="inline-flex items-center gap-2 text-gray-700 dark:text-gray-300">
+                  <input type="radio" name="editMode" checked={mode === 'html'} onChange={() => setMode('html')} />
+                  Final HTML
+                </label>
+              </div>
+
+              {mode === 'variables' && email.templateVariables && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label htmlFor="editName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Name</label>
+                    <input type="text" id="editName" value={name} onChange={(e) => setName(e.target.value)} required className={inputClassName} />
+                  </div>
+                  <div>
+                    <label htmlFor="editActivityCount" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Activity Count</label>
+                    <input type="number" id="editActivityCount" min="0" value={activityCount} onChange={(e) => setActivityCount(e.target.value)} required className={inputClassName} />
+                  </div>
+                  <div>
+                    <label htmlFor="editThreshold" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Threshold</label>
+                    <input type="number" id="editThreshold" min="0" value={threshold} onChange={(e) => setThreshold(e.target.value)} required className={inputClassName} />
+                  </div>
+                  <p className="sm:col-span-3 text-xs text-gray-500 dark:text-gray-400">The template is rendered again through MJML with these values. Any earlier HTML edits are replaced.</p>
+                </div>
+              )}
+
+              {mode === 'html' && (
+                <div>
+                  <label htmlFor="editBodyHtml" className="block text-sm font-medium text-gray-700 dark:text-gray-300">HTML</label>
+                  <textarea id="editBodyHtml" value={bodyHtml} onChange={(e) => setBodyHtml(e.target.value)} rows={14} className={`${inputClassName} font-mono text-xs`} />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Sent exactly as written. Use this to add a personal line to the rendered email.</p>
+                </div>
+              )}
+
+              {/* Comparison with the Original */}
+              {email.originalBodyHtml && (
+                <div className="border-t dark:border-gray-700 pt-3">
+                  <div className="flex justify-between items-center text-sm">
+                    <span className="text-gray-600 dark:text-gray-400">
+                      Edited by {email.editedBy || 'unknown'}{email.editedAt ? ` on ${new Date(email.editedAt).toLocaleString()}` : ''}
+                    </span>
+                    <button type="button" onClick={() => setShowOriginal(prev => !prev)} className="text-indigo-600 dark:text-indigo-400 underline hover:text-indigo-800">
+                      {showOriginal ? 'Hide original' : 'Compare with original'}
+                    </button>
+                  </div>
+                  {showOriginal && (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 mt-3">
+                      <div>
+                        <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Original: {email.originalSubject}</p>
+                        <iframe srcDoc={email.originalBodyHtml} className="w-full h-[40vh] border border-gray-300 dark:border-gray-600 rounded bg-white" title="Original Email" />
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Current: {email.subject}</p>
+                        <iframe srcDoc={email.bodyHtml} className="w-full h-[40vh] border border-gray-300 dark:border-gray-600 rounded bg-white" title="Current Email" />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {saveError && <p className="text-sm text-red-600 dark:text-red-400">{saveError}</p>}
+            </form>
+          )}
+        </div>
+
+        {/* Modal Footer */}
+        <div className="border-t border-gray-200 dark:border-gray-700 p-4 flex justify-end gap-2 flex-shrink-0 bg-gray-50 dark:bg-gray-800 rounded-b-lg">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-600 rounded-md hover:bg-gray-300 dark:hover:bg-gray-500 focus:outline-none focus:ring-2 focus:ring-gray-400 focus:ring-offset-2 transition-colors duration-150"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            form="emailEditForm"
+            disabled={!email || isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50 transition-colors duration-150"
+          >
+            {isSaving ? "Saving..." : "Save Changes"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
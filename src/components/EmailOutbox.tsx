@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getEmailOutbox, requeueEmail, processEmailQueue } from '@/app/actions';
+import { EmailStatus } from '@prisma/client';
+
+// Local type matching the rows returned by getEmailOutbox
+interface OutboxEmail {
+  id: string;
+  recipientEmail: string;
+  recipientName: string | null;
+  subject: string;
+  template: string;
+  status: EmailStatus;
+  attemptCount: number;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  scheduledAt: Date | null;
+  updatedAt: Date;
+}
+
+// Helper to describe where an email is in the delivery process
+const getDeliveryState = (email: OutboxEmail, now: Date): { label: string; className: string } => {
+  switch (email.status) {
+    case EmailStatus.SENDING:
+      return { label: 'Sending', className: 'bg-indigo-100 text-indigo-800' };
+    case EmailStatus.FAILED:
+      return { label: 'Failed', className: 'bg-red-100 text-red-800' };
+    default:
+      if (email.nextAttemptAt) return { label: 'Retrying', className: 'bg-orange-100 text-orange-800' };
+      if (email.scheduledAt && email.scheduledAt > now) return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+      return { label: 'Approved', className: 'bg-yellow-100 text-yellow-800' };
+  }
+};
+
+export default function EmailOutbox() {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isUpdating, startUpdateTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  const fetchOutbox = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getEmailOutbox();
+      if (result.success && result.emails) {
+        setEmails(result.emails.map(email => ({
+          ...email,
+          updatedAt: new Date(email.updatedAt),
+          nextAttemptAt: email.nextAttemptAt ? new Date(email.nextAttemptAt) : null,
+          scheduledAt: email.scheduledAt ? new Date(email.scheduledAt) : null,
+        })));
+        setMaxAttempts(result.maxAttempts ?? null);
+      } else {
+        setError(result.message || "Failed to fetch the outbox.");
+        setEmails([]);
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching the outbox.");
+      console.error(err);
+      setEmails([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOutbox();
+  }, [fetchOutbox]);
+
+  const handleRequeue = (email: OutboxEmail) => {
+    startUpdateTransition(async () => {
+      setMessage("Requeueing email...");
+      setMessageIsError(false);
+      try {
+        const result = await requeueEmail(email.id);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          await fetchOutbox();
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while requeueing the email.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const handleProcessNow = () => {
+    startUpdateTransition(async () => {
+      setMessage("Sending approved emails...");
+      setMessageIsError(false);
+      try {
+        const result = await processEmailQueue();
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        await fetchOutbox();
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while processing the queue.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <div className="flex justify-between items-center flex-wrap gap-2">
+        <h2 className="text-xl font-semibold">Outbox</h2>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fetchOutbox()}
+            disabled={isLoading || isUpdating}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+          <button
+            onClick={handleProcessNow}
+            disabled={isLoading || isUpdating}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isUpdating ? "Working..." : "Send Approved Now"}
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600">
+        Approved emails waiting to go out (now or at their scheduled time), emails being retried after a failed send, and emails that failed
+        {maxAttempts !== null ? ` after ${maxAttempts} attempts` : ''}.
+      </p>
+      {message && <p className={`text-sm ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+
+      {isLoading && <p>Loading outbox...</p>}
+      {error && <p className="text-red-600">Error: {error}</p>}
+
+      {!isLoading && !error && emails.length === 0 && (
+        <p className="text-gray-500 text-sm">The outbox is empty.</p>
+      )}
+
+      {!isLoading && !error && emails.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Subject</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">State</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Last Error</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {emails.map(email => {
+                const state = getDeliveryState(email, now);
+                const canRequeue = email.status === EmailStatus.FAILED || (email.status === EmailStatus.APPROVED && email.nextAttemptAt !== null);
+                return (
+                  <tr key={email.id} className="hover:bg-gray-50">
+                    <td className="px-3 py-2 whitespace-normal">
+                      <div>{email.recipientName || 'N/A'}</div>
+                      <div className="text-xs text-gray-500 break-all">{email.recipientEmail}</div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-normal text-gray-700 hidden md:table-cell">{email.subject}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${state.className}`}>{state.label}</span>
+                      {email.status === EmailStatus.APPROVED && !email.nextAttemptAt && email.scheduledAt && email.scheduledAt > now && (
+                        <div className="text-xs text-gray-500 mt-1">Sends after {email.scheduledAt.toLocaleString()}</div>
+                      )}
+                      {email.status === EmailStatus.APPROVED && email.nextAttemptAt && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {email.nextAttemptAt > now ? `Next try ${email.nextAttemptAt.toLocaleString()}` : 'Due on next run'}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">
+                      {email.attemptCount}{maxAttempts !== null ? ` / ${maxAttempts}` : ''}
+                    </td>
+                    <td className="px-3 py-2 whitespace-normal text-xs text-red-700 break-words max-w-xs">{email.lastError || <span className="text-gray-400">None</span>}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-center">
+                      {canRequeue && (
+                        <button
+                          onClick={() => handleRequeue(email)}
+                          disabled={isUpdating}
+                          className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                        >
+                          {email.status === EmailStatus.FAILED ? 'Requeue' : 'Retry Now'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,10 @@
 
 import { useState, useEffect, useTransition, useCallback } from 'react';
 import Pusher from 'pusher-js';
-import { getEmailQueue, updateEmailStatus, checkMemberActivity, getEmailBodyHtml, approveAllQueuedEmails } from '@/app/actions';
+import { getEmailQueue, updateEmailStatus, checkMemberActivity, previewMemberActivity, getEmailBodyHtml, approveAllQueuedEmails } from '@/app/actions';
 import { EmailStatus } from '@prisma/client';
-import { CheckCircleIcon, XCircleIcon, EyeIcon, ArrowPathIcon, ExclamationTriangleIcon } from '@/components/icons'; // Assume you have an icons component
+import EmailEditor from '@/components/EmailEditor';
+import { CheckCircleIcon, XCircleIcon, EyeIcon, ArrowPathIcon, ExclamationTriangleIcon, PencilSquareIcon } from '@/components/icons'; // Assume you have an icons component
 
 interface QueuedEmail {
   id: string;
@@ -19,9 +20,29 @@ interface QueuedEmail {
 interface SheetError {
     rowIndex: number;
     reason: string;
+    name?: string | null; // Name column value, if the row had one
     rowData: (string | number | boolean | null)[]; // Store the raw row data
 }
 
+// Would-be warning returned by a dry-run activity check
+interface CheckPreviewEntry {
+    email: string;
+    name: string;
+    role: string | null;
+    activityCount: number;
+    threshold: number;
+    template: string;
+    subject: string;
+    stage: number;
+    stageName: string;
+}
+
+// Helper to turn the datetime-local input (browser's local time) into an ISO timestamp
+const toSendAtIso = (value: string): string | null => value ? new Date(value).toISOString() : null;
+
+// The queue is processed hourly on the hour (vercel.json), so send times are whole hours ('YYYY-MM-DDTHH:mm')
+const toWholeHour = (value: string): string => value ? `${value.slice(0, 13)}:00` : '';
+
 // --- Pusher Constants (Match actions.ts) ---
 const PUSHER_CHANNEL = 'admin-updates';
 const PUSHER_EMAIL_QUEUE_EVENT = 'email-queue-updated';
@@ -52,15 +73,21 @@ export default function EmailQueueManager() {
   const [isChecking, startCheckTransition] = useTransition();
   const [checkMessage, setCheckMessage] = useState<string | null>(null);
   const [sheetErrors, setSheetErrors] = useState<SheetError[]>([]);
+  const [checkWarnings, setCheckWarnings] = useState<string[]>([]);
+  const [isPreviewingCheck, startCheckPreviewTransition] = useTransition();
+  const [checkPreview, setCheckPreview] = useState<CheckPreviewEntry[] | null>(null);
   const [isApprovingAll, startApproveAllTransition] = useTransition();
   const [approveAllMessage, setApproveAllMessage] = useState<string | null>(null);
+  const [sendAt, setSendAt] = useState(''); // Optional send time (datetime-local) applied when approving
 
   // --- State for Preview Modal ---
   const [isPreviewing, startPreviewTransition] = useTransition();
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [previewSubject, setPreviewSubject] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   // --- End Preview State ---
+  const [editingEmailId, setEditingEmailId] = useState<string | null>(null); // Email open in the editor
 
   // --- Extracted Data Fetching Logic ---
   const fetchQueue = useCallback(async (setLoading = true) => {
@@ -91,10 +118,13 @@ export default function EmailQueueManager() {
       setUpdateMessage(null);
       setCheckMessage("Checking sheet & queuing new warnings...");
       setSheetErrors([]);
+      setCheckWarnings([]);
+      setCheckPreview(null);
 
       try {
         const checkResult = await checkMemberActivity();
         setCheckMessage(checkResult.message);
+        setCheckWarnings(checkResult.warnings ?? []);
         if (checkResult.errorsList && checkResult.errorsList.length > 0) {
             setSheetErrors(checkResult.errorsList);
             console.log("Sheet validation errors found:", checkResult.errorsList);
@@ -111,6 +141,34 @@ export default function EmailQueueManager() {
     });
   };
 
+  // --- Handle Preview Check (dry run) ---
+  const handlePreviewCheck = () => {
+    startCheckPreviewTransition(async () => {
+      setError(null);
+      setUpdateMessage(null);
+      setCheckMessage("Previewing check (nothing will be queued)...");
+      setSheetErrors([]);
+      setCheckWarnings([]);
+      setCheckPreview(null);
+
+      try {
+        const previewResult = await previewMemberActivity();
+        setCheckMessage(previewResult.message);
+        setCheckWarnings(previewResult.warnings ?? []);
+        if (previewResult.errorsList && previewResult.errorsList.length > 0) {
+            setSheetErrors(previewResult.errorsList);
+        }
+        if (previewResult.success) {
+            setCheckPreview(previewResult.preview ?? []);
+        }
+      } catch (err) {
+        setCheckMessage("An error occurred during the check preview.");
+        console.error("Error calling previewMemberActivity:", err);
+      }
+    });
+  };
+  // --- End Handle Preview Check ---
+
   // --- Initial Fetch & Pusher Setup ---
   useEffect(() => {
     fetchQueue();
@@ -148,7 +206,7 @@ export default function EmailQueueManager() {
     startUpdateTransition(async () => {
         setUpdateMessage(`Updating email ${emailId} to ${status}...`);
         try {
-            const result = await updateEmailStatus(emailId, status);
+            const result = await updateEmailStatus(emailId, status, status === EmailStatus.APPROVED ? toSendAtIso(sendAt) : null);
             setUpdateMessage(result.message); 
         } catch (err) {
             setUpdateMessage("An unexpected error occurred during update.");
@@ -162,12 +220,14 @@ export default function EmailQueueManager() {
     startPreviewTransition(async () => {
       setPreviewError(null);
       setPreviewHtml(null);
+      setPreviewSubject(null);
       setIsModalOpen(true);
       
       try {
         const result = await getEmailBodyHtml(emailId);
         if (result.success && result.htmlContent) {
           setPreviewHtml(result.htmlContent);
+          setPreviewSubject(result.subject ?? null);
         } else {
           setPreviewError(result.message || "Failed to fetch email content.");
         }
@@ -181,10 +241,17 @@ export default function EmailQueueManager() {
   const closeModal = () => {
       setIsModalOpen(false);
       setPreviewHtml(null);
+      setPreviewSubject(null);
       setPreviewError(null);
   };
   // --- End Preview Handling ---
 
+  const handleEditSaved = (message: string) => {
+      setEditingEmailId(null);
+      setUpdateMessage(message);
+      fetchQueue(false);
+  };
+
   // --- Handle Approve All --- 
   const handleApproveAll = () => {
       if (!confirm(`Are you sure you want to approve all ${queuedEmails.length} pending emails?`)) {
@@ -194,7 +261,7 @@ export default function EmailQueueManager() {
           setApproveAllMessage("Approving all emails...");
           setUpdateMessage(null); // Clear single update messages
           try {
-              const result = await approveAllQueuedEmails();
+              const result = await approveAllQueuedEmails(toSendAtIso(sendAt));
               setApproveAllMessage(result.message); 
               // No need to manually refetch, Pusher event should trigger update
           } catch (err) { 
@@ -217,7 +284,7 @@ export default function EmailQueueManager() {
               {/* Adjust button focus rings/hovers if needed for dark mode */}
               <button 
                 onClick={handleCheckAndRefresh}
-                disabled={isLoading || isUpdating || isChecking || isApprovingAll}
+                disabled={isLoading || isUpdating || isChecking || isPreviewingCheck || isApprovingAll}
                 className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-60 transition-colors duration-150"
               >
                 {isChecking ? (
@@ -226,9 +293,20 @@ export default function EmailQueueManager() {
                      <> <ArrowPathIcon className="h-4 w-4 mr-2" /> Check Sheet</>
                  )}
               </button>
+              <button 
+                onClick={handlePreviewCheck}
+                disabled={isLoading || isUpdating || isChecking || isPreviewingCheck || isApprovingAll}
+                className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-blue-700 dark:text-blue-300 bg-white dark:bg-gray-800 border border-blue-600 dark:border-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:opacity-60 transition-colors duration-150"
+              >
+                {isPreviewingCheck ? (
+                     <> <ArrowPathIcon className="animate-spin h-4 w-4 mr-2" /> Previewing...</> 
+                 ) : (
+                     <> <EyeIcon className="h-4 w-4 mr-2" /> Preview Check</>
+                 )}
+              </button>
               <button 
                 onClick={handleApproveAll}
-                disabled={isLoading || isUpdating || isChecking || isApprovingAll || queuedEmails.length === 0}
+                disabled={isLoading || isUpdating || isChecking || isPreviewingCheck || isApprovingAll || queuedEmails.length === 0}
                 className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:opacity-60 disabled:bg-green-400 transition-colors duration-150"
               >
                 {isApprovingAll ? (
@@ -240,10 +318,31 @@ export default function EmailQueueManager() {
           </div>
         </div>
 
+        {/* Send Time for Approvals */}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-3 text-sm">
+          <label htmlFor="approvalSendAt" className="font-medium text-gray-700 dark:text-gray-300">Send approved emails at:</label>
+          <input
+            type="datetime-local"
+            id="approvalSendAt"
+            value={sendAt}
+            step={3600}
+            onChange={(e) => setSendAt(toWholeHour(e.target.value))}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+          />
+          {sendAt ? (
+            <button onClick={() => setSendAt('')} className="text-xs text-gray-500 dark:text-gray-400 underline hover:text-gray-700">Clear (send on next run)</button>
+          ) : (
+            <span className="text-xs text-gray-500 dark:text-gray-400">Leave empty to send on the next queue run.</span>
+          )}
+        </div>
+
         {/* Messages Area - Adjust text colors */}
         <div className="min-h-[20px] mb-3 text-center sm:text-left">
           {approveAllMessage && <p className={`text-sm ${approveAllMessage.includes("Failed") || approveAllMessage.includes("Error") ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{approveAllMessage}</p>}
           {checkMessage && <p className={`text-sm ${checkMessage.includes("Failed") || checkMessage.includes("Error") ? 'text-red-600 dark:text-red-400' : 'text-blue-600 dark:text-blue-400'}`}>{checkMessage}</p>}
+          {checkWarnings.map((warning, index) => (
+            <p key={index} className="text-sm text-orange-600 dark:text-orange-400">{warning}</p>
+          ))}
           {updateMessage && <p className={`text-sm ${updateMessage.includes("Failed") || updateMessage.includes("Error") ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{updateMessage}</p>}
           {error && <p className="text-red-600 dark:text-red-400 text-sm">Error fetching queue: {error}</p>}
         </div>
@@ -290,6 +389,14 @@ export default function EmailQueueManager() {
                       >
                         <EyeIcon className="h-5 w-5" />
                       </button>
+                      <button
+                        onClick={() => setEditingEmailId(email.id)}
+                        disabled={isUpdating || isChecking || isPreviewing}
+                        title="Edit Email"
+                        className="inline-flex items-center p-1 text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+                      >
+                        <PencilSquareIcon className="h-5 w-5" />
+                      </button>
                       <button
                         onClick={() => handleUpdate(email.id, EmailStatus.APPROVED)}
                         disabled={isUpdating || isChecking || isPreviewing}
@@ -339,6 +446,14 @@ export default function EmailQueueManager() {
                   >
                     <EyeIcon className="h-5 w-5" />
                   </button>
+                  <button
+                    onClick={() => setEditingEmailId(email.id)}
+                    disabled={isUpdating || isChecking || isPreviewing}
+                    title="Edit Email"
+                    className="inline-flex items-center p-1 text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-150"
+                  >
+                    <PencilSquareIcon className="h-5 w-5" />
+                  </button>
                   <button
                     onClick={() => handleUpdate(email.id, EmailStatus.APPROVED)}
                     disabled={isUpdating || isChecking || isPreviewing}
@@ -362,6 +477,77 @@ export default function EmailQueueManager() {
         )}
       </div>
 
+      {/* --- Check Preview Section (dry run results) --- */}
+      {checkPreview && (
+        <div className="mt-6 pt-4 border-t border-blue-200 dark:border-blue-800/50 w-full bg-blue-50 dark:bg-blue-900/20 p-4 rounded-lg">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-lg font-semibold text-blue-800 dark:text-blue-300 flex items-center">
+                <EyeIcon className="h-5 w-5 mr-2 text-blue-600 dark:text-blue-400" /> 
+                Check Preview ({checkPreview.length} would be flagged)
+            </h3>
+            <button
+              onClick={() => setCheckPreview(null)}
+              className="text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300 text-2xl leading-none font-light"
+              aria-label="Dismiss preview"
+            >
+              &times;
+            </button>
+          </div>
+          <p className="text-sm text-blue-700 dark:text-blue-400 mb-3">Nothing has been queued or logged. Run &quot;Check Sheet&quot; to queue these warnings for approval.</p>
+
+          {checkPreview.length === 0 ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 py-2">No new members would be flagged.</p>
+          ) : (
+            <>
+              {/* Table for Medium screens and up */}
+              <div className="hidden md:block overflow-x-auto max-h-80 border border-blue-300 dark:border-blue-700 rounded-md bg-white dark:bg-gray-800 shadow-sm">
+                <table className="min-w-full divide-y divide-blue-200 dark:divide-blue-700 text-sm">
+                  <thead className="bg-blue-100 dark:bg-blue-900/40 sticky top-0 z-10">
+                    <tr>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Recipient</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Role</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Activity / Threshold</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Stage</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Template</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium text-blue-900 dark:text-blue-200 uppercase tracking-wider">Subject</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white dark:bg-gray-800 divide-y divide-blue-100 dark:divide-blue-900/50">
+                    {checkPreview.map((entry) => (
+                      <tr key={entry.email} className="hover:bg-blue-50 dark:hover:bg-blue-900/30 transition-colors duration-150">
+                        <td className="px-3 py-2 whitespace-nowrap">
+                          <div className="font-medium text-gray-900 dark:text-gray-100">{entry.name || 'N/A'}</div>
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{entry.email}</div>
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{entry.role || 'N/A'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{entry.activityCount} / {entry.threshold}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-700 dark:text-gray-300">{entry.stage} · {entry.stageName}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400 font-mono text-xs">{entry.template}</td>
+                        <td className="px-3 py-2 whitespace-normal text-gray-700 dark:text-gray-300">{entry.subject}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Cards for Small screens */}
+              <div className="block md:hidden space-y-2 max-h-80 overflow-y-auto border border-blue-300 dark:border-blue-700 rounded-md p-2 bg-white dark:bg-gray-800 shadow-sm">
+                {checkPreview.map((entry) => (
+                  <div key={entry.email} className="p-2 border-b border-blue-200 dark:border-blue-900/50 bg-white dark:bg-gray-800 rounded shadow-sm text-xs">
+                    <div className="mb-1 font-medium text-gray-900 dark:text-gray-100">{entry.name || 'N/A'} <span className="text-gray-500 dark:text-gray-400 font-normal">({entry.email})</span></div>
+                    <div className="mb-1 text-gray-700 dark:text-gray-300">
+                      <span className="font-medium">Role:</span> {entry.role || 'N/A'} | <span className="font-medium">Activity:</span> {entry.activityCount} / {entry.threshold} | <span className="font-medium">Stage:</span> {entry.stage} · {entry.stageName}
+                    </div>
+                    <div className="mb-1 text-gray-500 dark:text-gray-400 font-mono break-all">{entry.template}</div>
+                    <div className="text-gray-700 dark:text-gray-300"><span className="font-medium">Subject:</span> {entry.subject}</div>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
       {/* --- Responsive Sheet Errors Section --- */}
       {sheetErrors.length > 0 && (
         <div className="mt-6 pt-4 border-t border-red-200 dark:border-red-800/50 w-full bg-red-50 dark:bg-red-900/20 p-4 rounded-lg">
@@ -384,7 +570,7 @@ export default function EmailQueueManager() {
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-red-100 dark:divide-red-900/50">
                 {sheetErrors.map((err) => {
-                  const nameFromSheet = typeof err.rowData?.[0] === 'string' ? err.rowData[0] : 'N/A';
+                  const nameFromSheet = err.name || 'N/A';
                   return (
                     <tr key={err.rowIndex} className="hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors duration-150">
                       <td className="sticky left-0 bg-white dark:bg-gray-800 hover:bg-red-50 dark:hover:bg-red-900/30 px-3 py-2 whitespace-nowrap font-medium text-gray-900 dark:text-gray-100 z-10">{err.rowIndex}</td>
@@ -401,7 +587,7 @@ export default function EmailQueueManager() {
           {/* Cards for Small screens */}
           <div className="block md:hidden space-y-2 max-h-60 overflow-y-auto border border-red-300 dark:border-red-700 rounded-md p-2 bg-white dark:bg-gray-800 shadow-sm">
             {sheetErrors.map((err) => {
-              const nameFromSheet = typeof err.rowData?.[0] === 'string' ? err.rowData[0] : 'N/A';
+              const nameFromSheet = err.name || 'N/A';
               return (
                 <div key={err.rowIndex} className="p-2 border-b border-red-200 dark:border-red-900/50 bg-white dark:bg-gray-800 rounded shadow-sm text-xs">
                   <div className="mb-1 font-medium">
@@ -450,6 +636,11 @@ export default function EmailQueueManager() {
                 }
                 {previewError && <p className="text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/30 p-3 rounded border border-red-200 dark:border-red-800/50">Error: {previewError}</p>}
                 
+                {previewSubject && (
+                  <p className="mb-3 text-sm text-gray-800 dark:text-gray-200 break-words">
+                    <span className="font-medium text-gray-500 dark:text-gray-400">Subject:</span> {previewSubject}
+                  </p>
+                )}
                 {previewHtml && (
                   <iframe 
                     srcDoc={previewHtml} 
@@ -472,6 +663,11 @@ export default function EmailQueueManager() {
         </div>
       )}
       {/* --- End Preview Modal --- */}
+
+      {/* --- Edit Modal --- */}
+      {editingEmailId && (
+        <EmailEditor emailId={editingEmailId} onClose={() => setEditingEmailId(null)} onSaved={handleEditSaved} />
+      )}
     </div>
   );
 } 
\ No newline at end of file
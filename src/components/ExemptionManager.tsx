@@ -0,0 +1,258 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getExemptions, createExemption, deleteExemption } from '@/app/actions';
+
+// Local type matching the ActivityExemption rows returned by getExemptions
+interface Exemption {
+  id: string;
+  memberEmail: string;
+  memberName: string | null;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string;
+  createdByEmail: string;
+  createdAt: Date;
+}
+
+// Helper to format a date-only value (exemptions are stored as whole UTC days)
+const formatDay = (date: Date): string => new Date(date).toISOString().slice(0, 10);
+
+// Helper to describe where an exemption is relative to today
+const getExemptionState = (exemption: Exemption, now: Date): 'Active' | 'Upcoming' | 'Ended' => {
+  if (new Date(exemption.startsAt) > now) return 'Upcoming';
+  if (new Date(exemption.endsAt) < now) return 'Ended';
+  return 'Active';
+};
+
+const STATE_BADGE_CLASSES: Record<'Active' | 'Upcoming' | 'Ended', string> = {
+  Active: 'bg-green-100 text-green-800',
+  Upcoming: 'bg-blue-100 text-blue-800',
+  Ended: 'bg-gray-100 text-gray-800',
+};
+
+export default function ExemptionManager() {
+  const [exemptions, setExemptions] = useState<Exemption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  // Form state
+  const [memberEmail, setMemberEmail] = useState('');
+  const [memberName, setMemberName] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [reason, setReason] = useState('');
+
+  const fetchExemptions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getExemptions();
+      if (result.success && result.exemptions) {
+        setExemptions(result.exemptions);
+      } else {
+        setError(result.message || "Failed to fetch exemptions.");
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching exemptions.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchExemptions();
+  }, [fetchExemptions]);
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!memberEmail || !startsAt || !endsAt || !reason) {
+        setMessage("Please fill in the email, dates and reason.");
+        setMessageIsError(true);
+        return;
+    }
+
+    startSaveTransition(async () => {
+      setMessage("Adding exemption...");
+      setMessageIsError(false);
+      try {
+        const result = await createExemption({ memberEmail, memberName: memberName || null, startsAt, endsAt, reason });
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setMemberEmail('');
+          setMemberName('');
+          setStartsAt('');
+          setEndsAt('');
+          setReason('');
+          await fetchExemptions();
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while adding the exemption.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const handleDelete = (exemption: Exemption) => {
+    if (!window.confirm(`Remove the exemption for ${exemption.memberEmail}? They will be flagged again on the next check if below threshold.`)) {
+        return;
+    }
+    startSaveTransition(async () => {
+      setMessage("Removing exemption...");
+      setMessageIsError(false);
+      try {
+        const result = await deleteExemption(exemption.id);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setExemptions(prev => prev.filter(e => e.id !== exemption.id));
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while removing the exemption.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Leave of Absence Exemptions</h2>
+      <p className="text-sm text-gray-600">Members with an active exemption are skipped by the activity check and see &quot;Exempt&quot; on their status page.</p>
+
+      {/* Add Form */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Add Exemption</h3>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="exemptionEmail" className="block text-sm font-medium text-gray-700">Member Email</label>
+            <input
+              type="email"
+              id="exemptionEmail"
+              value={memberEmail}
+              onChange={(e) => setMemberEmail(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="exemptionName" className="block text-sm font-medium text-gray-700">Member Name (optional)</label>
+            <input
+              type="text"
+              id="exemptionName"
+              value={memberName}
+              onChange={(e) => setMemberName(e.target.value)}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="exemptionStart" className="block text-sm font-medium text-gray-700">Start Date</label>
+            <input
+              type="date"
+              id="exemptionStart"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="exemptionEnd" className="block text-sm font-medium text-gray-700">End Date (inclusive)</label>
+            <input
+              type="date"
+              id="exemptionEnd"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <label htmlFor="exemptionReason" className="block text-sm font-medium text-gray-700">Reason</label>
+            <input
+              type="text"
+              id="exemptionReason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              placeholder="e.g., Exchange semester, Medical leave"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Add Exemption"}
+            </button>
+            {message && <p className={`text-sm mt-2 ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+          </div>
+        </form>
+      </div>
+
+      {/* Exemption List */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Exemptions</h3>
+        {isLoading && <p>Loading exemptions...</p>}
+        {error && <p className="text-red-600">Error: {error}</p>}
+        {!isLoading && !error && exemptions.length === 0 && (
+          <p className="text-gray-500 text-sm">No exemptions have been added.</p>
+        )}
+        {!isLoading && !error && exemptions.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Member</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">State</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Added By</th>
+                  <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {exemptions.map(exemption => {
+                  const state = getExemptionState(exemption, now);
+                  return (
+                    <tr key={exemption.id} className="hover:bg-gray-50">
+                      <td className="px-3 py-2 whitespace-normal">
+                        <div>{exemption.memberName || 'N/A'}</div>
+                        <div className="text-xs text-gray-500 break-all">{exemption.memberEmail}</div>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-700">{formatDay(exemption.startsAt)} to {formatDay(exemption.endsAt)}</td>
+                      <td className="px-3 py-2 whitespace-normal text-gray-700">{exemption.reason}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATE_BADGE_CLASSES[state]}`}>{state}</span>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-500 hidden md:table-cell">{exemption.createdByEmail}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-center">
+                        <button
+                          onClick={() => handleDelete(exemption)}
+                          disabled={isSaving}
+                          className="px-2 py-1 text-xs font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
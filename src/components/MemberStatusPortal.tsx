@@ -3,7 +3,7 @@
 import { useState, useEffect, useTransition } from 'react';
 import { useSession } from 'next-auth/react';
 import Image from 'next/image';
-import { getMemberStatus } from '@/app/actions';
+import { getMemberStatus, getActivityHistory } from '@/app/actions';
 
 // Interface matching the return structure of getMemberStatus
 interface MemberStatusData { 
@@ -13,6 +13,16 @@ interface MemberStatusData {
   role?: string | null; 
   effectiveThreshold?: number;
   statusMessage: string; 
+  exemptUntil?: Date; // Set when the member is on an approved leave of absence
+}
+
+// One activity check run's record for this member
+interface ActivityHistoryEntry {
+  runId: string;
+  activityCount: number;
+  threshold: number;
+  belowThreshold: boolean;
+  createdAt: Date;
 }
 
 // Helper function to calculate progress percentage
@@ -75,6 +85,7 @@ export default function MemberStatusPortal() {
   const [isLoading, setIsLoading] = useState(true); // Start loading initially
   const [error, setError] = useState<string | null>(null);
   const [isFetching, startFetchingTransition] = useTransition();
+  const [history, setHistory] = useState<ActivityHistoryEntry[]>([]);
 
   const fetchStatus = () => {
     startFetchingTransition(async () => {
@@ -82,6 +93,12 @@ export default function MemberStatusPortal() {
       setError(null);
       setStatusData(null);
       try {
+        // History is optional context; a failure there shouldn't hide the current status
+        const historyResult = await getActivityHistory();
+        setHistory(historyResult.success && historyResult.history 
+          ? historyResult.history.map(entry => ({ ...entry, createdAt: new Date(entry.createdAt) })) 
+          : []);
+
         const result = await getMemberStatus();
         if (result.success && result.status) {
           setStatusData(result.status);
@@ -113,6 +130,7 @@ export default function MemberStatusPortal() {
   const progressPercentage = calculateProgress(statusData?.activityCount, statusData?.effectiveThreshold);
   const progressBarColor = statusData?.statusMessage === 'Active' ? 'bg-teal-500' : 
                            statusData?.statusMessage === 'Below Threshold' ? 'bg-amber-500' : 
+                           statusData?.statusMessage === 'Exempt' ? 'bg-indigo-400' : 
                            'bg-gray-400';
 
   // Get role-specific tips if below threshold
@@ -166,6 +184,7 @@ export default function MemberStatusPortal() {
                     className={`inline-flex items-center px-3 py-1 rounded-full text-base font-semibold shadow-sm ${ 
                     statusData.statusMessage === 'Active' ? 'bg-green-100 text-green-800 ring-1 ring-inset ring-green-600/20' : 
                     statusData.statusMessage === 'Below Threshold' ? 'bg-yellow-100 text-yellow-800 ring-1 ring-inset ring-yellow-600/20' : 
+                    statusData.statusMessage === 'Exempt' ? 'bg-indigo-100 text-indigo-800 ring-1 ring-inset ring-indigo-600/20' : 
                     'bg-gray-100 text-gray-800 ring-1 ring-inset ring-gray-500/10'
                     }`}
                 >
@@ -213,6 +232,15 @@ export default function MemberStatusPortal() {
             )}
             {/* --- End Personalized Tips --- */}
             
+            {/* Exemption Notice */}
+            {statusData.statusMessage === 'Exempt' && (
+                <div className="mt-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg text-sm text-indigo-800 w-full shadow-sm">
+                    <p className="font-medium">
+                        🗓️ You are on an approved leave of absence{statusData.exemptUntil ? ` until ${new Date(statusData.exemptUntil).toLocaleDateString()}` : ''}. You won&apos;t receive activity warnings during this time.
+                    </p>
+                </div>
+            )}
+
             {/* Active Status Encouragement */} 
             {statusData.statusMessage === 'Active' && (
                 <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800 w-full shadow-sm">
@@ -225,6 +253,24 @@ export default function MemberStatusPortal() {
         )}
       </div>
 
+      {/* --- Activity History Section --- */}
+      {!isLoading && history.length > 0 && (
+        <div className="w-full pt-4 border-t border-gray-200">
+          <h3 className="text-sm font-semibold text-gray-600 mb-2 text-center uppercase tracking-wider">Activity History</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {history.map(entry => (
+              <li key={entry.runId} className="flex justify-between items-center py-1.5">
+                <span className="text-gray-500">{entry.createdAt.toLocaleDateString()}</span>
+                <span className={entry.belowThreshold ? 'text-amber-600 font-medium' : 'text-teal-600 font-medium'}>
+                  {entry.activityCount} / {entry.threshold}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {/* --- End Activity History --- */}
+
       {/* --- Club Resources Section --- */}
       <div className="w-full pt-4 mt-4 border-t border-gray-200">
         <h3 className="text-sm font-semibold text-gray-600 mb-2 text-center uppercase tracking-wider">Club Resources</h3>
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState, useEffect, useTransition } from 'react';
+import { getRewarnPolicySettings, updateRewarnPolicy } from '@/app/actions';
+import { EmailStatus, RewarnMode } from '@prisma/client';
+
+// Finished statuses the panel can toggle (QUEUED, APPROVED and SENDING always block)
+const CONFIGURABLE_STATUSES: { status: EmailStatus; label: string; help: string }[] = [
+  { status: EmailStatus.SENT, label: 'Sent', help: 'A delivered warning counts as the member being warned.' },
+  { status: EmailStatus.CANCELED, label: 'Canceled', help: 'A warning the panel canceled still counts, so the member is not re-flagged.' },
+  { status: EmailStatus.FAILED, label: 'Failed', help: 'A warning that failed to send still counts.' },
+];
+
+const MODE_OPTIONS: { mode: RewarnMode; label: string }[] = [
+  { mode: RewarnMode.FOREVER, label: 'Warn only once (never again)' },
+  { mode: RewarnMode.COOLDOWN, label: 'At most once per N days' },
+  { mode: RewarnMode.TERM, label: 'Once per term' },
+];
+
+export default function RewarnPolicyManager() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  // Form state
+  const [mode, setMode] = useState<RewarnMode>(RewarnMode.FOREVER);
+  const [cooldownDays, setCooldownDays] = useState('30');
+  const [termName, setTermName] = useState('');
+  const [termStartsAt, setTermStartsAt] = useState(''); // YYYY-MM-DD
+  const [blockingStatuses, setBlockingStatuses] = useState<EmailStatus[]>([]);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await getRewarnPolicySettings();
+        if (result.success && result.policy) {
+          setMode(result.policy.mode);
+          setCooldownDays(String(result.policy.cooldownDays));
+          setTermName(result.policy.termName ?? '');
+          setTermStartsAt(result.policy.termStartsAt ? new Date(result.policy.termStartsAt).toISOString().slice(0, 10) : '');
+          setBlockingStatuses(result.policy.blockingStatuses);
+        } else {
+          setError(result.message || "Failed to fetch re-warn policy.");
+        }
+      } catch (err) {
+        setError("An unexpected client-side error occurred while fetching the policy.");
+        console.error(err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPolicy();
+  }, []);
+
+  const toggleStatus = (status: EmailStatus) => {
+    setBlockingStatuses(prev => prev.includes(status) ? prev.filter(s => s !== status) : [...prev, status]);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const numericCooldown = parseInt(cooldownDays, 10);
+
+    setSaveFailed(true); // Until the server confirms the save
+    if (isNaN(numericCooldown) || numericCooldown < 1) {
+        setSaveMessage("Please enter a cooldown of at least 1 day.");
+        return;
+    }
+    if (mode === RewarnMode.TERM && !termStartsAt) {
+        setSaveMessage("Please enter the date the current term started.");
+        return;
+    }
+
+    startSaveTransition(async () => {
+      setSaveMessage("Saving policy...");
+      setSaveFailed(false);
+      try {
+        const result = await updateRewarnPolicy({
+          mode,
+          cooldownDays: numericCooldown,
+          termName: termName || null,
+          termStartsAt: termStartsAt || null,
+          blockingStatuses,
+        });
+        setSaveMessage(result.message);
+        setSaveFailed(!result.success);
+      } catch (err) {
+        setSaveMessage("An unexpected client-side error occurred while saving.");
+        setSaveFailed(true);
+        console.error(err);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border dark:border-gray-700 rounded-lg shadow-md w-full max-w-lg flex flex-col gap-4 bg-white dark:bg-gray-800">
+      <h2 className="text-xl font-semibold text-gray-800 dark:text-gray-100">Re-warn Policy</h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        Controls when a member who was already warned can be flagged again by the activity check.
+        Emails still waiting in the queue (queued, approved or sending) always block a new warning.
+      </p>
+
+      {isLoading && <p className="text-gray-500 dark:text-gray-400">Loading policy...</p>}
+      {error && <p className="text-red-600 dark:text-red-400">Error: {error}</p>}
+
+      {!isLoading && !error && (
+        <form onSubmit={handleSubmit} className="space-y-4 border-t dark:border-gray-700 pt-4">
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Warn again</legend>
+            <div className="space-y-1">
+              {MODE_OPTIONS.map(option => (
+                <label key={option.mode} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="radio"
+                    name="rewarnMode"
+                    value={option.mode}
+                    checked={mode === option.mode}
+                    onChange={() => setMode(option.mode)}
+                  />
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {mode === RewarnMode.COOLDOWN && (
+            <div>
+              <label htmlFor="cooldownDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Cooldown (days)</label>
+              <input
+                type="number"
+                id="cooldownDays"
+                value={cooldownDays}
+                onChange={(e) => setCooldownDays(e.target.value)}
+                min="1"
+                required
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+            </div>
+          )}
+
+          {mode === RewarnMode.TERM && (
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="termName" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Term Name</label>
+                <input
+                  type="text"
+                  id="termName"
+                  value={termName}
+                  onChange={(e) => setTermName(e.target.value)}
+                  placeholder="e.g., Spring 2025"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="termStartsAt" className="block text-sm font-medium text-gray-700 dark:text-gray-300">Term Start Date</label>
+                <input
+                  type="date"
+                  id="termStartsAt"
+                  value={termStartsAt}
+                  onChange={(e) => setTermStartsAt(e.target.value)}
+                  required
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 dark:bg-gray-700 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Emails created before this date no longer block a new warning.</p>
+              </div>
+            </div>
+          )}
+
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Earlier emails that count as a warning</legend>
+            <div className="space-y-2">
+              {CONFIGURABLE_STATUSES.map(option => (
+                <label key={option.status} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={blockingStatuses.includes(option.status)}
+                    onChange={() => toggleStatus(option.status)}
+                  />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{option.help}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+          >
+            {isSaving ? "Saving..." : "Save Policy"}
+          </button>
+          {saveMessage && <p className={`text-sm mt-2 ${saveFailed ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>{saveMessage}</p>}
+        </form>
+      )}
+    </div>
+  );
+}
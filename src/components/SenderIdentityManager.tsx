@@ -0,0 +1,272 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getSenderIdentities, saveSenderIdentity, deleteSenderIdentity, getUniqueRolesFromSheet } from '@/app/actions';
+import { SenderIdentity, SenderScope } from '@prisma/client';
+
+const SCOPE_LABELS: Record<SenderScope, string> = {
+  DEFAULT: 'Default (all emails)',
+  ROLE: 'Role',
+  TEMPLATE: 'Template',
+};
+
+// Most specific first, matching how the activity check picks an identity
+const SCOPE_ORDER: SenderScope[] = [SenderScope.TEMPLATE, SenderScope.ROLE, SenderScope.DEFAULT];
+
+export default function SenderIdentityManager() {
+  const [identities, setIdentities] = useState<SenderIdentity[]>([]);
+  const [templates, setTemplates] = useState<string[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  // Form state
+  const [scope, setScope] = useState<SenderScope>(SenderScope.DEFAULT);
+  const [scopeValue, setScopeValue] = useState('');
+  const [fromName, setFromName] = useState('');
+  const [fromAddress, setFromAddress] = useState('');
+  const [replyTo, setReplyTo] = useState('');
+
+  const fetchIdentities = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getSenderIdentities();
+      if (result.success && result.identities) {
+        setIdentities(result.identities);
+        setTemplates(result.templates ?? []);
+      } else {
+        setError(result.message || "Failed to fetch sender identities.");
+      }
+      // Roles are only a convenience for the form, so a roster problem doesn't block the page
+      const rolesResult = await getUniqueRolesFromSheet();
+      if (rolesResult.success && rolesResult.roles) {
+        setRoles(rolesResult.roles);
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching sender identities.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchIdentities();
+  }, [fetchIdentities]);
+
+  const handleEdit = (identity: SenderIdentity) => {
+    setScope(identity.scope);
+    setScopeValue(identity.scopeValue);
+    setFromName(identity.fromName);
+    setFromAddress(identity.fromAddress);
+    setReplyTo(identity.replyTo ?? '');
+    setMessage(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    startSaveTransition(async () => {
+      setMessage("Saving sender identity...");
+      setMessageIsError(false);
+      try {
+        const result = await saveSenderIdentity({
+          scope,
+          scopeValue: scope === SenderScope.DEFAULT ? null : scopeValue,
+          fromName,
+          fromAddress,
+          replyTo: replyTo || null,
+        });
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setScopeValue('');
+          setFromName('');
+          setFromAddress('');
+          setReplyTo('');
+          await fetchIdentities();
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while saving the sender identity.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const handleDelete = (identity: SenderIdentity) => {
+    const target = identity.scope === SenderScope.DEFAULT ? 'the default sender' : `${identity.scope.toLowerCase()} '${identity.scopeValue}'`;
+    if (!window.confirm(`Remove the sender identity for ${target}? Emails already queued keep their sender.`)) {
+        return;
+    }
+    startSaveTransition(async () => {
+      setMessage("Removing sender identity...");
+      setMessageIsError(false);
+      try {
+        const result = await deleteSenderIdentity(identity.id);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setIdentities(prev => prev.filter(i => i.id !== identity.id));
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while removing the sender identity.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const sortedIdentities = [...identities].sort((a, b) =>
+    SCOPE_ORDER.indexOf(a.scope) - SCOPE_ORDER.indexOf(b.scope) || a.scopeValue.localeCompare(b.scopeValue));
+  const scopeOptions = scope === SenderScope.ROLE ? roles : templates;
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Sender Identities</h2>
+      <p className="text-sm text-gray-600">
+        Who warning emails come from and where replies go. A template&apos;s identity wins over a role&apos;s, which wins over the default.
+        The identity is saved on each email when it is queued.
+      </p>
+
+      {/* Add / Edit Form */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Set Identity</h3>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="senderScope" className="block text-sm font-medium text-gray-700">Applies To</label>
+            <select
+              id="senderScope"
+              value={scope}
+              onChange={(e) => { setScope(e.target.value as SenderScope); setScopeValue(''); }}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.values(SenderScope).map(value => (
+                <option key={value} value={value}>{SCOPE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          {scope !== SenderScope.DEFAULT && (
+            <div>
+              <label htmlFor="senderScopeValue" className="block text-sm font-medium text-gray-700">{scope === SenderScope.ROLE ? 'Role' : 'Template'}</label>
+              <input
+                type="text"
+                id="senderScopeValue"
+                list="senderScopeOptions"
+                value={scopeValue}
+                onChange={(e) => setScopeValue(e.target.value)}
+                required
+                className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+              />
+              <datalist id="senderScopeOptions">
+                {scopeOptions.map(option => <option key={option} value={option} />)}
+              </datalist>
+            </div>
+          )}
+          <div>
+            <label htmlFor="senderFromName" className="block text-sm font-medium text-gray-700">From Name</label>
+            <input
+              type="text"
+              id="senderFromName"
+              value={fromName}
+              onChange={(e) => setFromName(e.target.value)}
+              required
+              placeholder="e.g., Club Panel"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="senderFromAddress" className="block text-sm font-medium text-gray-700">From Address</label>
+            <input
+              type="email"
+              id="senderFromAddress"
+              value={fromAddress}
+              onChange={(e) => setFromAddress(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="senderReplyTo" className="block text-sm font-medium text-gray-700">Reply-To (optional)</label>
+            <input
+              type="email"
+              id="senderReplyTo"
+              value={replyTo}
+              onChange={(e) => setReplyTo(e.target.value)}
+              placeholder="e.g., president@club.org"
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Identity"}
+            </button>
+            {message && <p className={`text-sm mt-2 ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+          </div>
+        </form>
+      </div>
+
+      {/* Identity List */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Configured Identities</h3>
+        {isLoading && <p>Loading sender identities...</p>}
+        {error && <p className="text-red-600">Error: {error}</p>}
+        {!isLoading && !error && identities.length === 0 && (
+          <p className="text-gray-500 text-sm">No sender identities yet. Emails use the MAIL_FROM address with no reply-to.</p>
+        )}
+        {!isLoading && !error && identities.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">From</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Reply-To</th>
+                  <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sortedIdentities.map(identity => (
+                  <tr key={identity.id} className="hover:bg-gray-50">
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <div className="font-medium text-gray-900">{SCOPE_LABELS[identity.scope]}</div>
+                      {identity.scopeValue && <div className="text-xs text-gray-500">{identity.scopeValue}</div>}
+                    </td>
+                    <td className="px-3 py-2 whitespace-normal">
+                      <div>{identity.fromName}</div>
+                      <div className="text-xs text-gray-500 break-all">{identity.fromAddress}</div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-normal text-gray-700 break-all">{identity.replyTo || <span className="text-gray-400">None</span>}</td>
+                    <td className="px-3 py-2 whitespace-nowrap text-center space-x-2">
+                      <button
+                        onClick={() => handleEdit(identity)}
+                        disabled={isSaving}
+                        className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(identity)}
+                        disabled={isSaving}
+                        className="px-2 py-1 text-xs font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
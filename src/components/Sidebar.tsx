@@ -5,7 +5,7 @@ import { Session } from 'next-auth'; // <-- Import Session type
 // Import icons later if needed (e.g., for each nav item)
 
 // Define the possible views/sections
-type AdminView = 'queue' | 'thresholds' | 'warnings' | 'adminLogs' | 'analytics' | 'dashboard' | 'selfStatus'; // Added 'selfStatus'
+type AdminView = 'queue' | 'outbox' | 'thresholds' | 'rewarnPolicy' | 'templates' | 'templateRules' | 'senders' | 'exemptions' | 'suppressions' | 'webhookEvents' | 'checkRuns' | 'warnings' | 'adminLogs' | 'analytics' | 'dashboard' | 'selfStatus'; // Added 'selfStatus'
 
 interface SidebarProps {
   activeView: AdminView;
@@ -22,7 +22,16 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, setActiveView, session })
     const allAdminItems = [
       { id: 'dashboard', label: 'Dashboard Overview' },
       { id: 'queue', label: 'Email Queue' },
+      { id: 'outbox', label: 'Outbox' },
       { id: 'thresholds', label: 'Thresholds' },
+      { id: 'rewarnPolicy', label: 'Re-warn Policy' },
+      { id: 'templates', label: 'Email Templates' },
+      { id: 'templateRules', label: 'Template Rules' },
+      { id: 'senders', label: 'Sender Identities' },
+      { id: 'exemptions', label: 'Exemptions' },
+      { id: 'suppressions', label: 'Suppression List' },
+      { id: 'webhookEvents', label: 'Webhook Events' },
+      { id: 'checkRuns', label: 'Check Runs' },
       { id: 'warnings', label: 'Warning Logs' },
       { id: 'adminLogs', label: 'Admin Logs' },
       { id: 'analytics', label: 'Analytics' },
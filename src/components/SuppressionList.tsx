@@ -0,0 +1,125 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getSuppressions, removeSuppression } from '@/app/actions';
+
+// Local type matching the EmailSuppression rows returned by getSuppressions
+interface Suppression {
+  email: string;
+  reason: 'BOUNCED' | 'COMPLAINED';
+  detail: string | null;
+  sourceEmailQueueId: string | null;
+  createdAt: Date;
+}
+
+const REASON_BADGES: Record<Suppression['reason'], { label: string; className: string }> = {
+  BOUNCED: { label: 'Hard bounce', className: 'bg-red-100 text-red-800' },
+  COMPLAINED: { label: 'Spam complaint', className: 'bg-orange-100 text-orange-800' },
+};
+
+export default function SuppressionList() {
+  const [suppressions, setSuppressions] = useState<Suppression[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  const fetchSuppressions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getSuppressions();
+      if (result.success && result.suppressions) {
+        setSuppressions(result.suppressions.map(s => ({ ...s, createdAt: new Date(s.createdAt) })));
+      } else {
+        setError(result.message || "Failed to fetch the suppression list.");
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching the suppression list.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSuppressions();
+  }, [fetchSuppressions]);
+
+  const handleRemove = (suppression: Suppression) => {
+    if (!window.confirm(`Allow warnings to ${suppression.email} again? Only do this if the address has been fixed.`)) {
+        return;
+    }
+    startSaveTransition(async () => {
+      setMessage("Removing address from the suppression list...");
+      setMessageIsError(false);
+      try {
+        const result = await removeSuppression(suppression.email);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setSuppressions(prev => prev.filter(s => s.email !== suppression.email));
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while removing the address.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Suppression List</h2>
+      <p className="text-sm text-gray-600">
+        Addresses that hard-bounced or marked a warning as spam. The activity check skips them so they are not emailed again.
+      </p>
+      {message && <p className={`text-sm ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+
+      {isLoading && <p>Loading suppression list...</p>}
+      {error && <p className="text-red-600">Error: {error}</p>}
+      {!isLoading && !error && suppressions.length === 0 && (
+        <p className="text-gray-500 text-sm">No addresses are suppressed.</p>
+      )}
+      {!isLoading && !error && suppressions.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Address</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Detail</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Since</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {suppressions.map(suppression => (
+                <tr key={suppression.email} className="hover:bg-gray-50">
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900 break-all">{suppression.email}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${REASON_BADGES[suppression.reason].className}`}>
+                      {REASON_BADGES[suppression.reason].label}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-normal text-xs text-gray-600 hidden md:table-cell">{suppression.detail || 'N/A'}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-500">{suppression.createdAt.toLocaleDateString()}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-center">
+                    <button
+                      onClick={() => handleRemove(suppression)}
+                      disabled={isSaving}
+                      className="px-2 py-1 text-xs font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,572 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getEmailTemplates, previewEmailTemplate, saveEmailTemplate, resetEmailTemplate, deleteEmailTemplate, getTemplateVersions, getTemplateVersionDiff, rollbackEmailTemplate } from '@/app/actions';
+
+// Local type matching the templates returned by getEmailTemplates
+interface EmailTemplateSummary {
+  identifier: string;
+  mjml: string;
+  subject: string;
+  preheader: string | null;
+  updatedBy: string | null;
+  updatedAt: Date;
+  variables: string[];
+  hasDefault: boolean;
+  isModified: boolean;
+}
+
+// Local type matching the variable schema returned by getEmailTemplates
+interface TemplateVariableOption {
+  name: string;
+  type: 'string' | 'number';
+  description: string;
+}
+
+// Local type matching the versions returned by getTemplateVersions
+interface TemplateVersionSummary {
+  id: string;
+  version: number;
+  variables: string[];
+  createdBy: string | null;
+  note: string | null;
+  createdAt: Date;
+  isCurrent: boolean;
+  emailCount: number;
+}
+
+// Local type matching the comparison returned by getTemplateVersionDiff
+interface TemplateVersionDiff {
+  diff: { type: 'same' | 'added' | 'removed'; text: string }[];
+  previousVersion: number | null;
+  fieldChanges: { field: 'Subject' | 'Preheader'; from: string; to: string }[];
+  addedVariables: string[];
+  removedVariables: string[];
+}
+
+const DIFF_LINE_CLASSES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800',
+};
+
+const DIFF_LINE_PREFIXES = { same: ' ', added: '+', removed: '-' };
+
+// Validation error reported by MJML or the placeholder check (tagName is empty for those)
+interface TemplateValidationError {
+  line: number;
+  message: string;
+  tagName: string;
+}
+
+// Wait this long after the last keystroke before rendering the preview
+const PREVIEW_DEBOUNCE_MS = 500;
+
+const NEW_TEMPLATE_MJML = `<mjml>
+  <mj-body>
+    <mj-section>
+      <mj-column>
+        <mj-text>Hi {{name}},</mj-text>
+        <mj-text>Your activity count is {{activityCount}}; the threshold is {{threshold}}.</mj-text>
+        <mj-text>{{#if deficit}}You need {{deficit}} more to get back on track.{{/if}}</mj-text>
+      </mj-column>
+    </mj-section>
+  </mj-body>
+</mjml>
+`;
+
+const NEW_TEMPLATE_SUBJECT = 'Club Activity Alert for {{name}}';
+
+const NEW_TEMPLATE_VARIABLES = ['name', 'activityCount', 'threshold', 'deficit'];
+
+// Declared variables are a set, so their order doesn't matter
+const sameVariables = (a: string[], b: string[]): boolean => a.length === b.length && a.every(name => b.includes(name));
+
+export default function TemplateEditor() {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [variableSchema, setVariableSchema] = useState<TemplateVariableOption[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  // Editor state
+  const [selectedIdentifier, setSelectedIdentifier] = useState<string | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [newIdentifier, setNewIdentifier] = useState('');
+  const [source, setSource] = useState('');
+  const [subject, setSubject] = useState('');
+  const [preheader, setPreheader] = useState(''); // Empty keeps the MJML's own <mj-preview>
+  const [variables, setVariables] = useState<string[]>([]);
+  const [previewHtml, setPreviewHtml] = useState('');
+  const [previewSubject, setPreviewSubject] = useState('');
+  const [validationErrors, setValidationErrors] = useState<TemplateValidationError[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+
+  // History state
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<TemplateVersionSummary[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [comparedVersionId, setComparedVersionId] = useState<string | null>(null);
+  const [versionDiff, setVersionDiff] = useState<TemplateVersionDiff | null>(null);
+
+  const selectedTemplate = templates.find(t => t.identifier === selectedIdentifier) ?? null;
+  const hasUnsavedChanges = isNew
+    ? source !== NEW_TEMPLATE_MJML || subject !== NEW_TEMPLATE_SUBJECT || preheader !== '' || !sameVariables(variables, NEW_TEMPLATE_VARIABLES)
+    : selectedTemplate !== null && (
+        source !== selectedTemplate.mjml ||
+        subject !== selectedTemplate.subject ||
+        preheader !== (selectedTemplate.preheader ?? '') ||
+        !sameVariables(variables, selectedTemplate.variables)
+      );
+
+  const fetchTemplates = useCallback(async (selectIdentifier?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getEmailTemplates();
+      if (result.success && result.templates) {
+        const loaded = result.templates.map(t => ({ ...t, updatedAt: new Date(t.updatedAt) }));
+        setTemplates(loaded);
+        setVariableSchema(result.variableSchema ?? []);
+        const toSelect = loaded.find(t => t.identifier === selectIdentifier) ?? loaded[0];
+        if (toSelect) {
+          setSelectedIdentifier(toSelect.identifier);
+          setSource(toSelect.mjml);
+          setSubject(toSelect.subject);
+          setPreheader(toSelect.preheader ?? '');
+          setVariables(toSelect.variables);
+          setIsNew(false);
+        }
+      } else {
+        setError(result.message || "Failed to fetch email templates.");
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching email templates.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  // --- Live Preview ---
+  useEffect(() => {
+    if (!source) {
+      setPreviewHtml('');
+      setPreviewSubject('');
+      setValidationErrors([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+      try {
+        const result = await previewEmailTemplate({ mjml: source, subject, preheader: preheader || null }, variables);
+        if (cancelled) return;
+        if (result.success) {
+          setPreviewHtml(result.html ?? '');
+          setPreviewSubject(result.subject ?? '');
+          setValidationErrors(result.errors ?? []);
+        } else {
+          setValidationErrors([{ line: 0, message: result.message, tagName: '' }]);
+        }
+      } catch (err) {
+        console.error("Error rendering template preview:", err);
+      } finally {
+        if (!cancelled) setIsRendering(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [source, subject, preheader, variables]);
+  // --- End Live Preview ---
+
+  // --- Version History ---
+  useEffect(() => {
+    if (!showHistory || isNew || !selectedIdentifier) {
+      setVersions([]);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      setHistoryError(null);
+      try {
+        const result = await getTemplateVersions(selectedIdentifier);
+        if (cancelled) return;
+        if (result.success && result.versions) {
+          setVersions(result.versions.map(v => ({ ...v, createdAt: new Date(v.createdAt) })));
+        } else {
+          setHistoryError(result.message || "Failed to fetch the template history.");
+        }
+      } catch (err) {
+        if (!cancelled) setHistoryError("An unexpected client-side error occurred while fetching the template history.");
+        console.error(err);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [showHistory, isNew, selectedIdentifier, historyRefreshKey]);
+
+  const handleCompare = async (versionId: string) => {
+    if (comparedVersionId === versionId) {
+      setComparedVersionId(null);
+      setVersionDiff(null);
+      return;
+    }
+    setComparedVersionId(versionId);
+    setVersionDiff(null);
+    try {
+      const result = await getTemplateVersionDiff(versionId);
+      if (result.success && result.diff) {
+        setVersionDiff({
+          diff: result.diff,
+          previousVersion: result.previousVersion ?? null,
+          fieldChanges: result.fieldChanges ?? [],
+          addedVariables: result.addedVariables ?? [],
+          removedVariables: result.removedVariables ?? [],
+        });
+      } else {
+        setHistoryError(result.message || "Failed to compare versions.");
+      }
+    } catch (err) {
+      setHistoryError("An unexpected client-side error occurred while comparing versions.");
+      console.error(err);
+    }
+  };
+  // --- End Version History ---
+
+  const confirmDiscard = () => !hasUnsavedChanges || window.confirm("Discard unsaved changes to this template?");
+
+  const handleSelect = (identifier: string) => {
+    if (!confirmDiscard()) return;
+    const template = templates.find(t => t.identifier === identifier);
+    if (!template) return;
+    setSelectedIdentifier(identifier);
+    setSource(template.mjml);
+    setSubject(template.subject);
+    setPreheader(template.preheader ?? '');
+    setVariables(template.variables);
+    setIsNew(false);
+    setMessage(null);
+    setComparedVersionId(null);
+    setVersionDiff(null);
+  };
+
+  const handleNew = () => {
+    if (!confirmDiscard()) return;
+    setSelectedIdentifier(null);
+    setIsNew(true);
+    setNewIdentifier('');
+    setSource(NEW_TEMPLATE_MJML);
+    setSubject(NEW_TEMPLATE_SUBJECT);
+    setPreheader('');
+    setVariables(NEW_TEMPLATE_VARIABLES);
+    setMessage(null);
+  };
+
+  const runAction = (pendingMessage: string, action: () => Promise<{ success: boolean; message: string }>, reselect?: string) => {
+    startSaveTransition(async () => {
+      setMessage(pendingMessage);
+      setMessageIsError(false);
+      try {
+        const result = await action();
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          await fetchTemplates(reselect);
+          setHistoryRefreshKey(key => key + 1);
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const handleSave = () => {
+    const identifier = isNew ? newIdentifier.trim() : selectedIdentifier;
+    if (!identifier) {
+      setMessage("Enter an identifier for the new template.");
+      setMessageIsError(true);
+      return;
+    }
+    runAction("Saving template...", async () => {
+      const result = await saveEmailTemplate({ identifier, mjml: source, subject, preheader: preheader || null, variables });
+      if (result.errors) setValidationErrors(result.errors);
+      return result;
+    }, identifier);
+  };
+
+  const handleReset = () => {
+    if (!selectedIdentifier || !window.confirm(`Replace '${selectedIdentifier}' with the default version? Your changes will be lost.`)) return;
+    runAction("Resetting template...", () => resetEmailTemplate(selectedIdentifier), selectedIdentifier);
+  };
+
+  const handleRollback = (version: TemplateVersionSummary) => {
+    if (!selectedIdentifier || !confirmDiscard()) return;
+    if (!window.confirm(`Restore version ${version.version} of '${selectedIdentifier}'? It is saved as a new version, so this can be undone.`)) return;
+    runAction("Rolling back template...", () => rollbackEmailTemplate(version.id), selectedIdentifier);
+  };
+
+  const handleDelete = () => {
+    if (!selectedIdentifier || !window.confirm(`Delete template '${selectedIdentifier}'? Emails already queued keep their content.`)) return;
+    runAction("Deleting template...", () => deleteEmailTemplate(selectedIdentifier));
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Email Templates</h2>
+      <p className="text-sm text-gray-600">
+        MJML used for warning emails. Insert member details with {'{{variable}}'} (values are HTML-escaped) and show text
+        only when a value is set with {'{{#if variable}}...{{else}}...{{/if}}'}, inside a text block. The subject and preheader
+        take the same placeholders. A template may only use the variables it declares below. The preview fills them with a sample member. Saved changes apply to warnings queued from then on.
+      </p>
+
+      {isLoading && templates.length === 0 && <p>Loading templates...</p>}
+      {error && <p className="text-red-600">Error: {error}</p>}
+
+      {!error && (templates.length > 0 || isNew) && (
+        <div className="flex flex-col lg:flex-row gap-4">
+          {/* Template List */}
+          <div className="lg:w-64 flex-shrink-0 flex flex-col gap-2">
+            <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 text-sm">
+              {templates.map(template => (
+                <li key={template.identifier}>
+                  <button
+                    onClick={() => handleSelect(template.identifier)}
+                    className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${template.identifier === selectedIdentifier ? 'bg-indigo-50 font-medium text-indigo-800' : 'text-gray-700'}`}
+                  >
+                    <div className="font-mono text-xs break-all">{template.identifier}</div>
+                    <div className="text-xs text-gray-500">
+                      {!template.hasDefault ? 'Custom' : template.isModified ? 'Edited' : 'Default'}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={handleNew}
+              disabled={isSaving}
+              className="px-3 py-2 text-sm font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+            >
+              New Template
+            </button>
+          </div>
+
+          {/* Editor and Preview */}
+          <div className="flex-grow flex flex-col gap-3 min-w-0">
+            {isNew ? (
+              <div>
+                <label htmlFor="newTemplateIdentifier" className="block text-sm font-medium text-gray-700">Identifier</label>
+                <input
+                  type="text"
+                  id="newTemplateIdentifier"
+                  value={newIdentifier}
+                  onChange={(e) => setNewIdentifier(e.target.value)}
+                  placeholder="e.g., low_activity_alumni"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            ) : selectedTemplate && (
+              <div className="text-sm text-gray-600">
+                <span className="font-mono font-medium text-gray-900">{selectedTemplate.identifier}</span>
+                {' · '}
+                {selectedTemplate.updatedBy ? `Last saved by ${selectedTemplate.updatedBy} on ${selectedTemplate.updatedAt.toLocaleString()}` : 'Default version'}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="templateSubject" className="block text-sm font-medium text-gray-700">Subject</label>
+                <input
+                  type="text"
+                  id="templateSubject"
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="e.g., Club Activity Alert for {{name}}"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="templatePreheader" className="block text-sm font-medium text-gray-700">Preheader (optional)</label>
+                <input
+                  type="text"
+                  id="templatePreheader"
+                  value={preheader}
+                  onChange={(e) => setPreheader(e.target.value)}
+                  placeholder="Inbox preview text; replaces the MJML's <mj-preview>"
+                  className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-3">
+              <div className="flex flex-col">
+                <label htmlFor="templateSource" className="text-sm font-medium text-gray-700 mb-1">MJML {hasUnsavedChanges && <span className="text-orange-600 font-normal">(unsaved)</span>}</label>
+                <textarea
+                  id="templateSource"
+                  value={source}
+                  onChange={(e) => setSource(e.target.value)}
+                  spellCheck={false}
+                  rows={24}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-indigo-500 focus:border-indigo-500"
+                />
+              </div>
+              <div className="flex flex-col">
+                <span className="text-sm font-medium text-gray-700 mb-1">Preview {isRendering && <span className="text-gray-400 font-normal">(rendering...)</span>}</span>
+                <p className="text-sm text-gray-800 mb-1 break-words"><span className="font-medium">Subject:</span> {previewSubject}</p>
+                <iframe srcDoc={previewHtml} className="w-full h-full min-h-[24rem] border border-gray-300 rounded bg-white" title="Template Preview" />
+              </div>
+            </div>
+
+            {/* Declared Variables */}
+            <fieldset>
+              <legend className="text-sm font-medium text-gray-700 mb-1">Variables</legend>
+              <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-2">
+                {variableSchema.map(variable => (
+                  <label key={variable.name} className="flex items-start gap-2 text-sm text-gray-700" title={variable.description}>
+                    <input
+                      type="checkbox"
+                      checked={variables.includes(variable.name)}
+                      onChange={(e) => setVariables(prev => e.target.checked ? [...prev, variable.name] : prev.filter(name => name !== variable.name))}
+                      className="mt-1"
+                    />
+                    <span>
+                      <span className="font-mono text-xs">{`{{${variable.name}}}`}</span>
+                      <span className="block text-xs text-gray-500">{variable.description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            {/* Validation Errors */}
+            {validationErrors.length > 0 && (
+              <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md p-3 space-y-1">
+                {validationErrors.map((err, index) => (
+                  <li key={`${err.line}-${index}`}>
+                    {err.line > 0 && <span className="font-medium">Line {err.line}{err.tagName && ` (${err.tagName})`}: </span>}
+                    {err.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={handleSave}
+                disabled={isSaving || (!isNew && !hasUnsavedChanges)}
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+              >
+                {isSaving ? "Saving..." : isNew ? "Create Template" : "Save Template"}
+              </button>
+              {!isNew && selectedTemplate?.hasDefault && selectedTemplate.isModified && (
+                <button
+                  onClick={handleReset}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Reset to Default
+                </button>
+              )}
+              {!isNew && selectedTemplate && !selectedTemplate.hasDefault && (
+                <button
+                  onClick={handleDelete}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              )}
+              {!isNew && selectedTemplate && (
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  {showHistory ? 'Hide History' : 'History'}
+                </button>
+              )}
+              {message && <p className={`text-sm ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+            </div>
+
+            {/* Version History */}
+            {showHistory && !isNew && selectedTemplate && (
+              <div className="border-t pt-3">
+                <h3 className="text-lg font-medium mb-2">History</h3>
+                {historyError && <p className="text-sm text-red-600">{historyError}</p>}
+                {versions.length === 0 && !historyError && <p className="text-sm text-gray-500">Loading history...</p>}
+                {versions.length > 0 && (
+                  <ul className="border border-gray-200 rounded-md divide-y divide-gray-200 text-sm">
+                    {versions.map(version => (
+                      <li key={version.id} className="px-3 py-2">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                          <div>
+                            <span className="font-medium text-gray-900">Version {version.version}</span>
+                            {version.isCurrent && <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">Current</span>}
+                            <div className="text-xs text-gray-500">
+                              {version.createdBy ?? 'Default file'} · {version.createdAt.toLocaleString()}
+                              {version.note && ` · ${version.note}`}
+                              {` · ${version.emailCount} email(s)`}
+                            </div>
+                          </div>
+                          <div className="space-x-2">
+                            <button
+                              onClick={() => handleCompare(version.id)}
+                              className="px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                            >
+                              {comparedVersionId === version.id ? 'Hide Changes' : 'Changes'}
+                            </button>
+                            {!version.isCurrent && (
+                              <button
+                                onClick={() => handleRollback(version)}
+                                disabled={isSaving}
+                                className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                              >
+                                Roll Back
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                        {comparedVersionId === version.id && versionDiff && (
+                          <div className="mt-2">
+                            <p className="text-xs text-gray-600 mb-1">
+                              {versionDiff.previousVersion ? `Compared with version ${versionDiff.previousVersion}.` : 'First version.'}
+                              {versionDiff.addedVariables.length > 0 && ` Declared: ${versionDiff.addedVariables.join(', ')}.`}
+                              {versionDiff.removedVariables.length > 0 && ` Undeclared: ${versionDiff.removedVariables.join(', ')}.`}
+                            </p>
+                            {versionDiff.fieldChanges.map(change => (
+                              <p key={change.field} className="text-xs text-gray-600 mb-1 break-words">
+                                <span className="font-medium">{change.field}:</span>{' '}
+                                <span className="line-through text-red-700">{change.from || '(none)'}</span>{' → '}
+                                <span className="text-green-700">{change.to || '(none)'}</span>
+                              </p>
+                            ))}
+                            <pre className="text-xs font-mono border border-gray-200 rounded max-h-80 overflow-auto">
+                              {versionDiff.diff.map((line, index) => (
+                                <div key={index} className={`px-2 whitespace-pre-wrap break-all ${DIFF_LINE_CLASSES[line.type]}`}>
+                                  {DIFF_LINE_PREFIXES[line.type]} {line.text}
+                                </div>
+                              ))}
+                            </pre>
+                          </div>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
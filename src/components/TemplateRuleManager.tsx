@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect, useTransition, useCallback } from 'react';
+import { getTemplateRules, saveTemplateRule, deleteTemplateRule, getUniqueRolesFromSheet } from '@/app/actions';
+import { TemplateRule, TemplateRuleMatch } from '@prisma/client';
+
+const MATCH_LABELS: Record<TemplateRuleMatch, string> = {
+  ROLE: 'Role',
+  TAG: 'Personality Tag',
+};
+
+const DEFAULT_PRECEDENCE = 100;
+
+export default function TemplateRuleManager() {
+  const [rules, setRules] = useState<TemplateRule[]>([]);
+  const [templates, setTemplates] = useState<string[]>([]);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, startSaveTransition] = useTransition();
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  // Form state
+  const [matchType, setMatchType] = useState<TemplateRuleMatch>(TemplateRuleMatch.ROLE);
+  const [matchValue, setMatchValue] = useState('');
+  const [templateIdentifier, setTemplateIdentifier] = useState('');
+  const [precedence, setPrecedence] = useState(DEFAULT_PRECEDENCE.toString());
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await getTemplateRules();
+      if (result.success && result.rules) {
+        setRules(result.rules); // Already in the order the activity check tries them
+        setTemplates(result.templates ?? []);
+      } else {
+        setError(result.message || "Failed to fetch template rules.");
+      }
+      // Roles are only a convenience for the form, so a roster problem doesn't block the page
+      const rolesResult = await getUniqueRolesFromSheet();
+      if (rolesResult.success && rolesResult.roles) {
+        setRoles(rolesResult.roles);
+      }
+    } catch (err) {
+      setError("An unexpected client-side error occurred while fetching template rules.");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleEdit = (rule: TemplateRule) => {
+    setMatchType(rule.matchType);
+    setMatchValue(rule.matchValue);
+    setTemplateIdentifier(rule.templateIdentifier);
+    setPrecedence(rule.precedence.toString());
+    setMessage(null);
+  };
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    startSaveTransition(async () => {
+      setMessage("Saving template rule...");
+      setMessageIsError(false);
+      try {
+        const result = await saveTemplateRule({
+          matchType,
+          matchValue,
+          templateIdentifier,
+          precedence: Number(precedence),
+        });
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setMatchValue('');
+          setPrecedence(DEFAULT_PRECEDENCE.toString());
+          await fetchRules();
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while saving the template rule.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  const handleDelete = (rule: TemplateRule) => {
+    if (!window.confirm(`Remove the rule for ${MATCH_LABELS[rule.matchType].toLowerCase()} '${rule.matchValue}'? Members it matches won't be warned until another rule covers them.`)) {
+        return;
+    }
+    startSaveTransition(async () => {
+      setMessage("Removing template rule...");
+      setMessageIsError(false);
+      try {
+        const result = await deleteTemplateRule(rule.id);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        if (result.success) {
+          setRules(prev => prev.filter(r => r.id !== rule.id));
+        }
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while removing the template rule.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Template Rules</h2>
+      <p className="text-sm text-gray-600">
+        Which template a member&apos;s first warning uses. Rules are tried from the lowest precedence number up and the first one matching
+        the member&apos;s role or one of their personality tags wins; on equal precedence a tag rule wins over a role rule.
+        Members no rule matches are not warned and are listed as warnings in the check result. Escalations always use their stage&apos;s template.
+      </p>
+
+      {/* Add / Edit Form */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Set Rule</h3>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="ruleMatchType" className="block text-sm font-medium text-gray-700">Match On</label>
+            <select
+              id="ruleMatchType"
+              value={matchType}
+              onChange={(e) => { setMatchType(e.target.value as TemplateRuleMatch); setMatchValue(''); }}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              {Object.values(TemplateRuleMatch).map(value => (
+                <option key={value} value={value}>{MATCH_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="ruleMatchValue" className="block text-sm font-medium text-gray-700">{MATCH_LABELS[matchType]}</label>
+            <input
+              type="text"
+              id="ruleMatchValue"
+              list={matchType === TemplateRuleMatch.ROLE ? 'ruleRoleOptions' : undefined}
+              value={matchValue}
+              onChange={(e) => setMatchValue(e.target.value)}
+              required
+              placeholder={matchType === TemplateRuleMatch.ROLE ? 'e.g., Executive' : 'e.g., Introvert'}
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+            <datalist id="ruleRoleOptions">
+              {roles.map(role => <option key={role} value={role} />)}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="ruleTemplate" className="block text-sm font-medium text-gray-700">Template</label>
+            <select
+              id="ruleTemplate"
+              value={templateIdentifier}
+              onChange={(e) => setTemplateIdentifier(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 bg-white rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            >
+              <option value="" disabled>Select a template</option>
+              {templates.map(template => (
+                <option key={template} value={template}>{template}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="rulePrecedence" className="block text-sm font-medium text-gray-700">Precedence (lower wins)</label>
+            <input
+              type="number"
+              id="rulePrecedence"
+              min="0"
+              value={precedence}
+              onChange={(e) => setPrecedence(e.target.value)}
+              required
+              className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save Rule"}
+            </button>
+            {message && <p className={`text-sm mt-2 ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+          </div>
+        </form>
+      </div>
+
+      {/* Rule List */}
+      <div className="border-t pt-4">
+        <h3 className="text-lg font-medium mb-2">Rules in Order</h3>
+        {isLoading && <p>Loading template rules...</p>}
+        {error && <p className="text-red-600">Error: {error}</p>}
+        {!isLoading && !error && rules.length === 0 && (
+          <p className="text-gray-500 text-sm">No template rules yet. No member will receive a first warning until a rule matches them.</p>
+        )}
+        {!isLoading && !error && rules.length > 0 && (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Precedence</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Matches</th>
+                  <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Template</th>
+                  <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rules.map(rule => (
+                  <tr key={rule.id} className="hover:bg-gray-50">
+                    <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">{rule.precedence}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <div className="font-medium text-gray-900">{rule.matchValue}</div>
+                      <div className="text-xs text-gray-500">{MATCH_LABELS[rule.matchType]}</div>
+                    </td>
+                    <td className="px-3 py-2 whitespace-normal font-mono text-xs text-gray-700 break-all">
+                      {rule.templateIdentifier}
+                      {!templates.includes(rule.templateIdentifier) && <span className="ml-1 font-sans text-red-600">(missing)</span>}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-center space-x-2">
+                      <button
+                        onClick={() => handleEdit(rule)}
+                        disabled={isSaving}
+                        className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        disabled={isSaving}
+                        className="px-2 py-1 text-xs font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
 
 import { useState, useEffect, useTransition, useCallback } from 'react';
 import { getWarningLogs } from '@/app/actions';
-import { WarningLog, EmailStatus } from '@prisma/client'; // Import WarningLog type
+import { WarningLog, EmailStatus, DeliveryStatus } from '@prisma/client'; // Import WarningLog type
+import { getEscalationStageLabel, FINAL_ESCALATION_LEVEL } from '@/lib/escalation';
 
 const PAGE_SIZE = 10; // Define page size constant
 
@@ -19,6 +20,8 @@ const getStatusBadgeClass = (status: EmailStatus): string => {
       return 'bg-blue-100 text-blue-800';
     case EmailStatus.APPROVED:
       return 'bg-yellow-100 text-yellow-800';
+    case EmailStatus.SENDING:
+      return 'bg-indigo-100 text-indigo-800';
     case EmailStatus.SENT:
       return 'bg-green-100 text-green-800';
     case EmailStatus.CANCELED:
@@ -30,6 +33,21 @@ const getStatusBadgeClass = (status: EmailStatus): string => {
   }
 };
 
+// Labels and colors for the delivery outcome reported by the webhook
+const DELIVERY_BADGES: Record<DeliveryStatus, { label: string; className: string }> = {
+  DELIVERY_DELAYED: { label: 'Delayed', className: 'text-orange-700' },
+  DELIVERED: { label: 'Delivered', className: 'text-green-700' },
+  BOUNCED: { label: 'Bounced', className: 'text-red-700' },
+  COMPLAINED: { label: 'Spam complaint', className: 'text-red-700' },
+};
+
+// Helper to get badge color for an escalation stage
+const getStageBadgeClass = (stage: number): string => {
+  if (stage >= FINAL_ESCALATION_LEVEL) return 'bg-red-100 text-red-800';
+  if (stage > 1) return 'bg-orange-100 text-orange-800';
+  return 'bg-blue-100 text-blue-800';
+};
+
 // --- Types for sorting --- 
 type SortField = 'createdAt' | 'activityCount' | 'recipientName' | 'status';
 type SortDirection = 'asc' | 'desc';
@@ -43,6 +61,8 @@ const SortIcon = ({ direction }: { direction: SortDirection | null }) => {
 
 export default function WarningLogViewer() {
   const [logs, setLogs] = useState<WarningLog[]>([]);
+  const [currentStages, setCurrentStages] = useState<Record<string, number>>({});
+  const [templateVersions, setTemplateVersions] = useState<Record<string, number>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isFetching, startFetchingTransition] = useTransition();
@@ -69,6 +89,8 @@ export default function WarningLogViewer() {
             emailSentAt: log.emailSentAt ? new Date(log.emailSentAt) : null,
           }));
           setLogs(logsWithDates);
+          setCurrentStages(result.currentStages || {});
+          setTemplateVersions(result.templateVersions || {});
           setTotalCount(result.totalCount || 0);
           setCurrentPage(result.page || 1);
           setFilterStatus(result.filterStatus ?? null); // Update state from response
@@ -162,6 +184,7 @@ export default function WarningLogViewer() {
                   {sortBy.startsWith('recipientName') && <SortIcon direction={sortBy.endsWith('asc') ? 'asc' : 'desc'} />}
                 </th>
                 <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Template</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Stage</th>
                 <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100" onClick={() => handleSortChange('activityCount')}>
                   Activity
                   {sortBy.startsWith('activityCount') && <SortIcon direction={sortBy.endsWith('asc') ? 'asc' : 'desc'} />}
@@ -186,13 +209,29 @@ export default function WarningLogViewer() {
                       <div>{log.recipientName || 'N/A'}</div>
                       <div className="text-xs text-gray-500 break-all">{log.recipientEmail}</div>
                   </td>
-                  <td className="px-3 py-2 whitespace-normal hidden md:table-cell text-gray-700">{log.templateUsed}</td>
+                  <td className="px-3 py-2 whitespace-normal hidden md:table-cell text-gray-700">
+                    {log.templateUsed}
+                    {log.templateVersionId && templateVersions[log.templateVersionId] !== undefined && (
+                      <span className="text-xs text-gray-500"> (v{templateVersions[log.templateVersionId]})</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStageBadgeClass(log.stage)}`}>
+                      {getEscalationStageLabel(log.stage)}
+                    </span>
+                    {currentStages[log.recipientEmail] !== undefined && currentStages[log.recipientEmail] !== log.stage && (
+                      <div className="text-xs text-gray-500 mt-1">Now: {getEscalationStageLabel(currentStages[log.recipientEmail])}</div>
+                    )}
+                  </td>
                   <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">{log.activityCount}</td>
                   <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700">{log.threshold}</td>
                   <td className="px-3 py-2 whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusBadgeClass(log.status)}`}>
                       {log.status}
                     </span>
+                    {log.deliveryStatus && (
+                      <div className={`text-xs mt-1 ${DELIVERY_BADGES[log.deliveryStatus].className}`}>{DELIVERY_BADGES[log.deliveryStatus].label}</div>
+                    )}
                   </td>
                   <td className="px-3 py-2 whitespace-nowrap hidden lg:table-cell text-gray-500">{formatDate(log.createdAt)}</td>
                   <td className="px-3 py-2 whitespace-nowrap hidden lg:table-cell text-gray-500">{formatDate(log.emailSentAt)}</td>
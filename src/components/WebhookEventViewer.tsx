@@ -0,0 +1,205 @@
+'use client';
+
+import { Fragment, useState, useEffect, useTransition, useCallback } from 'react';
+import { getWebhookEvents, reprocessWebhookEvent } from '@/app/actions';
+
+const PAGE_SIZE = 20;
+
+// Local type matching the WebhookEvent rows returned by getWebhookEvents
+interface StoredWebhookEvent {
+  id: string;
+  svixId: string | null;
+  eventType: string;
+  payload: unknown;
+  receivedAt: Date;
+  processedAt: Date | null;
+  processCount: number;
+  outcomeStatus: number | null;
+  outcomeMessage: string | null;
+}
+
+// Helper to pick the outcome badge for an event
+const getOutcomeBadge = (event: StoredWebhookEvent): { label: string; className: string } => {
+  if (event.outcomeStatus === null) return { label: 'Not processed', className: 'bg-gray-100 text-gray-800' };
+  if (event.outcomeStatus >= 500) return { label: `Error ${event.outcomeStatus}`, className: 'bg-red-100 text-red-800' };
+  if (event.outcomeStatus >= 400) return { label: `Rejected ${event.outcomeStatus}`, className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Processed', className: 'bg-green-100 text-green-800' };
+};
+
+export default function WebhookEventViewer() {
+  const [events, setEvents] = useState<StoredWebhookEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isFetching, startFetchingTransition] = useTransition();
+  const [isReprocessing, startReprocessTransition] = useTransition();
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalCount, setTotalCount] = useState(0);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [messageIsError, setMessageIsError] = useState(false);
+
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+
+  const fetchEvents = useCallback((page: number) => {
+    startFetchingTransition(async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const result = await getWebhookEvents(page, PAGE_SIZE);
+        if (result.success && result.events) {
+          setEvents(result.events.map(event => ({
+            ...event,
+            receivedAt: new Date(event.receivedAt),
+            processedAt: event.processedAt ? new Date(event.processedAt) : null,
+          })));
+          setTotalCount(result.totalCount || 0);
+          setCurrentPage(result.page || 1);
+        } else {
+          setError(result.message || "Failed to fetch webhook events.");
+          setEvents([]);
+          setTotalCount(0);
+        }
+      } catch (err) {
+        setError("An unexpected client-side error occurred while fetching webhook events.");
+        console.error("Error fetching webhook events:", err);
+        setEvents([]);
+        setTotalCount(0);
+      } finally {
+        setIsLoading(false);
+      }
+    });
+  }, [startFetchingTransition]);
+
+  useEffect(() => {
+    fetchEvents(1);
+  }, [fetchEvents]);
+
+  const handlePageChange = (newPage: number) => {
+    if (newPage >= 1 && newPage <= totalPages && newPage !== currentPage) {
+      fetchEvents(newPage);
+    }
+  };
+
+  const handleReprocess = (event: StoredWebhookEvent) => {
+    startReprocessTransition(async () => {
+      setMessage(`Reprocessing ${event.eventType} event...`);
+      setMessageIsError(false);
+      try {
+        const result = await reprocessWebhookEvent(event.id);
+        setMessage(result.message);
+        setMessageIsError(!result.success);
+        fetchEvents(currentPage);
+      } catch (err) {
+        setMessage("An unexpected client-side error occurred while reprocessing the event.");
+        setMessageIsError(true);
+        console.error(err);
+      }
+    });
+  };
+
+  return (
+    <div className="mt-6 p-4 border rounded-lg shadow-md w-full flex flex-col gap-4">
+      <h2 className="text-xl font-semibold">Webhook Events</h2>
+      <p className="text-sm text-gray-600">
+        Every signed event received from Resend, with the result of applying it. Reprocess an event to apply it again, e.g. after a failure.
+      </p>
+      {message && <p className={`text-sm ${messageIsError ? 'text-red-600' : 'text-green-600'}`}>{message}</p>}
+
+      {isLoading && <p>Loading webhook events...</p>}
+      {error && <p className="text-red-600">Error: {error}</p>}
+
+      {!isLoading && !error && events.length === 0 && (
+        <p className="text-gray-500 text-sm">No webhook events received yet.</p>
+      )}
+
+      {!isLoading && !error && events.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Received</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Event</th>
+                <th scope="col" className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">Outcome</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider hidden md:table-cell">Runs</th>
+                <th scope="col" className="px-3 py-2 text-center font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {events.map(event => {
+                const badge = getOutcomeBadge(event);
+                const isExpanded = expandedEventId === event.id;
+                return (
+                  <Fragment key={event.id}>
+                    <tr className={`hover:bg-gray-50 ${isExpanded ? 'bg-indigo-50' : ''}`}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-700">{event.receivedAt.toLocaleString()}</td>
+                      <td className="px-3 py-2 whitespace-normal">
+                        <div className="font-medium text-gray-900">{event.eventType}</div>
+                        {event.svixId && <div className="text-xs text-gray-500 break-all">{event.svixId}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-normal">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+                          {badge.label}
+                        </span>
+                        {event.outcomeMessage && <div className="text-xs text-gray-600 mt-1">{event.outcomeMessage}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-center text-gray-700 hidden md:table-cell" title={event.processedAt ? `Last run ${event.processedAt.toLocaleString()}` : undefined}>
+                        {event.processCount}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-center space-x-2">
+                        <button
+                          onClick={() => setExpandedEventId(isExpanded ? null : event.id)}
+                          className="px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                        >
+                          {isExpanded ? 'Hide' : 'Payload'}
+                        </button>
+                        <button
+                          onClick={() => handleReprocess(event)}
+                          disabled={isReprocessing}
+                          className="px-2 py-1 text-xs font-medium text-indigo-700 border border-indigo-300 rounded-md hover:bg-indigo-50 disabled:opacity-50"
+                        >
+                          Reprocess
+                        </button>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr>
+                        <td colSpan={5} className="px-3 py-2 bg-gray-50">
+                          <pre className="text-xs font-mono text-gray-700 whitespace-pre-wrap break-all max-h-80 overflow-y-auto">
+                            {JSON.stringify(event.payload, null, 2)}
+                          </pre>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* --- Pagination Controls --- */}
+      {!isLoading && !error && totalPages > 1 && (
+          <div className="flex justify-between items-center mt-4 text-sm">
+              <button
+                onClick={() => handlePageChange(currentPage - 1)}
+                disabled={currentPage <= 1 || isFetching}
+                className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                &larr; Previous
+              </button>
+              <span className="text-gray-600">
+                Page {currentPage} of {totalPages} (Total: {totalCount})
+              </span>
+              <button
+                onClick={() => handlePageChange(currentPage + 1)}
+                disabled={currentPage >= totalPages || isFetching}
+                className="px-3 py-1 border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next &rarr;
+              </button>
+          </div>
+      )}
+    </div>
+  );
+}
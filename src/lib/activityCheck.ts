@@ -0,0 +1,590 @@
+import { prisma } from '@/lib/prisma';
+import { EmailQueue, EmailStatus, Prisma, WarningLog } from '@prisma/client';
+import { triggerPusherEvent, ADMIN_CHANNEL, EMAIL_QUEUE_EVENT } from '@/lib/pusher';
+import { Actor, buildAdminLogData, getActorLabel } from '@/lib/actor';
+import { parseMemberRows, ClubMemberData, RosterError, SheetError } from '@/lib/roster';
+import { loadRoster, getRosterProvider } from '@/lib/rosterProviders';
+import { getRewarnPolicy, buildRewarnBlockWhere, describeRewarnPolicy, ALWAYS_BLOCKING_STATUSES } from '@/lib/rewarnPolicy';
+import { EscalationStage, getEscalationStage, FINAL_ESCALATION_LEVEL } from '@/lib/escalation';
+import { getActiveExemptions } from '@/lib/exemptions';
+import { getSuppressedEmails } from '@/lib/suppressions';
+import { loadSenderIdentities, resolveSender, ResolvedSender } from '@/lib/senderIdentity';
+import { acquireRunLock, releaseRunLock, RunLockResult } from '@/lib/runLock';
+import { compileTemplate, CompiledTemplate, fillTemplateVariables, TemplateVariables, loadTemplateContext, buildTemplateVariables } from '@/lib/emailTemplates';
+import { loadTemplateRules, getStageTemplateIdentifier } from '@/lib/templateRules';
+import { randomUUID } from 'crypto';
+
+// Define the default global activity threshold (can be overridden by role)
+export const DEFAULT_ACTIVITY_THRESHOLD = 5;
+
+// --- Helper Function: Resolve the threshold that applies to a role ---
+function getEffectiveThreshold(role: string | undefined, roleThresholds: Map<string, number>): number {
+  const specificThreshold = roleThresholds.get((role || '').trim().toLowerCase());
+  return specificThreshold !== undefined ? specificThreshold : DEFAULT_ACTIVITY_THRESHOLD;
+}
+// --- End Helper Function ---
+
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Warning rows written per transaction (one EmailQueue and one WarningLog row per member)
+const WRITE_BATCH_SIZE = 100;
+
+// --- Helper Types and Functions: Bulk Warning History ---
+type LastWarning = Pick<WarningLog, 'stage' | 'status' | 'createdAt' | 'emailSentAt'>;
+type BlockingEmail = Pick<EmailQueue, 'id' | 'status' | 'createdAt'>;
+
+interface WarningHistory {
+  lastWarnings: Map<string, LastWarning>; // Recipient email -> most recent warning
+  blockingEmails: Map<string, BlockingEmail[]>; // Recipient email -> emails matching the re-warn policy, newest first
+  lastRecoveries: Map<string, Date>; // Lowercase email -> latest snapshot at or above threshold
+}
+
+/**
+ * Loads everything the flagging step needs about earlier warnings with three queries,
+ * instead of querying per member.
+ */
+async function loadWarningHistory(emails: string[], rewarnBlockWhere: Prisma.EmailQueueWhereInput): Promise<WarningHistory> {
+  const history: WarningHistory = { lastWarnings: new Map(), blockingEmails: new Map(), lastRecoveries: new Map() };
+  if (emails.length === 0) {
+    return history;
+  }
+
+  const [lastWarnings, blockingEmails, recoveries] = await Promise.all([
+    prisma.warningLog.findMany({
+      where: { recipientEmail: { in: emails } },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['recipientEmail'],
+      select: { recipientEmail: true, stage: true, status: true, createdAt: true, emailSentAt: true },
+    }),
+    // Newest email per recipient and status is enough to answer both blocking checks
+    prisma.emailQueue.findMany({
+      where: { recipientEmail: { in: emails }, ...rewarnBlockWhere },
+      orderBy: { createdAt: 'desc' },
+      distinct: ['recipientEmail', 'status'],
+      select: { id: true, recipientEmail: true, status: true, createdAt: true },
+    }),
+    prisma.activitySnapshot.groupBy({
+      by: ['memberEmail'],
+      where: { memberEmail: { in: emails.map(email => email.trim().toLowerCase()) }, belowThreshold: false },
+      _max: { createdAt: true },
+    }),
+  ]);
+
+  lastWarnings.forEach(({ recipientEmail, ...warning }) => history.lastWarnings.set(recipientEmail, warning));
+  blockingEmails.forEach(({ recipientEmail, ...email }) => {
+    const list = history.blockingEmails.get(recipientEmail) ?? [];
+    list.push(email); // Query order keeps each list newest first
+    history.blockingEmails.set(recipientEmail, list);
+  });
+  recoveries.forEach(({ memberEmail, _max }) => {
+    if (_max.createdAt) history.lastRecoveries.set(memberEmail, _max.createdAt);
+  });
+  return history;
+}
+// --- End Helper Types and Functions ---
+
+
+export interface ActivityCheckResult {
+    success: boolean;
+    message: string;
+    checked?: number;
+    belowThreshold?: number;
+    flagged?: number;
+    escalated?: number;
+    exempted?: number; // Members skipped because of an active leave-of-absence exemption
+    suppressed?: number; // Below-threshold members not warned because their address bounced or complained
+    unmatched?: number; // Below-threshold members not warned because no template rule matches their role or tags
+    warnings?: string[]; // Configuration problems found during the run, e.g. roles without a template rule
+    errors?: number;
+    errorsList?: SheetError[];
+    preview?: ActivityCheckPreviewEntry[]; // Only set for dry runs
+    runId?: string; // ActivityCheckRun id (not set for dry runs)
+    inProgress?: boolean; // Another run held the lock, so nothing was done
+}
+
+// A member who would be flagged by a dry run, with the email they would receive
+export interface ActivityCheckPreviewEntry {
+    email: string;
+    name: string;
+    role: string | null;
+    activityCount: number;
+    threshold: number;
+    template: string;
+    subject: string;
+    stage: number;
+    stageName: string;
+}
+
+export interface ActivityCheckOptions {
+    // Evaluate and render everything, but write no EmailQueue, WarningLog or snapshot rows and fire no Pusher event
+    dryRun?: boolean;
+}
+
+/**
+ * Runs the member activity check: reads the member roster, compares each member's
+ * activity against their role threshold and queues warning emails for review.
+ * Every real run (not dry runs) is recorded as an ActivityCheckRun, including failed ones.
+ * Real runs hold the 'activity-check' run lock, so a second caller gets an "already in
+ * progress" result instead of queuing the same warnings twice.
+ *
+ * Callers are responsible for authorization. The panel server action passes the
+ * signed-in user, the cron route passes its service identity after checking CRON_SECRET.
+ *
+ * With `dryRun`, the run only reports who would be flagged (see ActivityCheckResult.preview).
+ */
+export async function runActivityCheck(actor: Actor, options: ActivityCheckOptions = {}): Promise<ActivityCheckResult> {
+  const dryRun = options.dryRun === true;
+  const runId = randomUUID();
+
+  // Dry runs write nothing, so they can run alongside a real run
+  if (dryRun) {
+    return executeActivityCheck(actor, dryRun, runId);
+  }
+
+  let lock: RunLockResult;
+  try {
+    lock = await acquireRunLock('activity-check', actor);
+  } catch (error) {
+    console.error("Error acquiring the activity check run lock:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!lock.acquired) {
+    return { success: false, message: lock.message, inProgress: true };
+  }
+
+  try {
+    const startedAt = new Date();
+    const result = await executeActivityCheck(actor, dryRun, runId);
+    await recordCheckRun(runId, actor, startedAt, result);
+    return { ...result, runId };
+  } finally {
+    await releaseRunLock('activity-check', lock.token);
+  }
+}
+
+// --- Helper Function: Store the run and its error report ---
+async function recordCheckRun(runId: string, actor: Actor, startedAt: Date, result: ActivityCheckResult): Promise<void> {
+  try {
+    await prisma.activityCheckRun.create({
+      data: {
+        id: runId,
+        trigger: actor.type === 'service' ? 'cron' : 'manual',
+        triggeredBy: getActorLabel(actor),
+        triggeredById: actor.type === 'user' ? actor.userId : null,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        success: result.success,
+        message: result.message,
+        checkedCount: result.checked ?? 0,
+        belowThresholdCount: result.belowThreshold ?? 0,
+        flaggedCount: result.flagged ?? 0,
+        escalatedCount: result.escalated ?? 0,
+        exemptedCount: result.exempted ?? 0,
+        errorCount: result.errors ?? 0,
+        errors: (result.errorsList ?? []) as unknown as Prisma.InputJsonArray,
+      },
+    });
+    console.log(`Recorded activity check run ${runId}.`);
+  } catch (runError) {
+    // Run history is informational; the check itself already completed
+    console.error(`Failed to record activity check run ${runId}:`, runError);
+  }
+}
+// --- End Helper Function ---
+
+async function executeActivityCheck(actor: Actor, dryRun: boolean, runId: string): Promise<ActivityCheckResult> {
+  console.log(`Starting member activity check${dryRun ? ' (dry run)' : ''}...`);
+
+  console.log(`Activity check triggered by ${getActorLabel(actor)}.`);
+
+  let checkedCount = 0;
+  let flaggedCount = 0;
+  let escalatedCount = 0;
+  let exemptedCount = 0;
+  let suppressedCount = 0;
+  let unmatchedCount = 0;
+  let belowThresholdCount = 0;
+  let errorCount = 0;
+  const errorsList: SheetError[] = [];
+  const preview: ActivityCheckPreviewEntry[] = [];
+  const warnings: string[] = [];
+  const roleThresholds: Map<string, number> = new Map();
+
+  try {
+    // --- Fetch Role Thresholds from DB --- 
+    console.log("Fetching role-specific thresholds from database...");
+    const thresholdsFromDb = await prisma.roleThreshold.findMany();
+    thresholdsFromDb.forEach(rt => {
+      roleThresholds.set(rt.roleName.toLowerCase(), rt.threshold);
+    });
+    console.log("Fetched role-specific thresholds:", Object.fromEntries(roleThresholds));
+    // --- End Fetch Thresholds ---
+
+    // --- Load Re-warn Policy ---
+    // Decides which earlier emails stop a member from being warned again
+    const rewarnPolicy = await getRewarnPolicy();
+    const rewarnBlockWhere = buildRewarnBlockWhere(rewarnPolicy);
+    console.log(`Re-warn policy: ${describeRewarnPolicy(rewarnPolicy)}`);
+    // --- End Load Policy ---
+
+    // --- Load Active Exemptions ---
+    const activeExemptions = await getActiveExemptions();
+    console.log(`Found ${activeExemptions.size} active exemption(s).`);
+    // --- End Load Exemptions ---
+
+    // --- Load Suppression List ---
+    // Addresses that hard-bounced or reported spam are never emailed again
+    const suppressedEmails = await getSuppressedEmails();
+    // --- End Load Suppression List ---
+
+    // --- Load Sender Identities ---
+    // The identity is stored on each queued email, so later edits don't change what was approved
+    const senderIdentities = await loadSenderIdentities();
+    // --- End Load Sender Identities ---
+
+    // --- Load Template Rules ---
+    // Maps roles and personality tags to first-warning templates, in precedence order
+    const templateRules = await loadTemplateRules();
+    console.log(`Loaded ${templateRules.length} template rule(s).`);
+    // --- End Load Template Rules ---
+
+    // Portal link, panel contact and term name shared by every email this run
+    const templateContext = await loadTemplateContext();
+
+    // --- Fetch Roster and Validate Rows ---
+    // Columns are located via the header row; a missing required column aborts the run.
+    // Role stays optional: members without one get the default threshold and only tag rules can match them.
+    const roster = await loadRoster(['email', 'activityCount']);
+
+    if (roster.rows.length === 0) {
+        return { success: true, message: `No member data found in the roster (${getRosterProvider().name}).`, checked: 0, flagged: 0, errors: 0, errorsList: [], ...(dryRun ? { preview } : {}) };
+    }
+
+    console.log(`Fetched ${roster.rows.length} member rows from roster.`);
+    checkedCount = roster.rows.length;
+
+    const { members: membersToProcess, errors: rowErrors } = parseMemberRows(roster);
+    errorsList.push(...rowErrors);
+    errorCount += rowErrors.length;
+    // --- End Fetch and Validate ---
+
+    console.log(`Parsed ${membersToProcess.length} valid members out of ${checkedCount} rows checked. Found ${errorCount} errors.`);
+
+    // --- Determine Thresholds --- 
+    const evaluatedMembers = membersToProcess.map(member => ({
+      member,
+      effectiveThreshold: getEffectiveThreshold(member.role, roleThresholds),
+    }));
+    // --- End Determine Thresholds --- 
+
+    // --- Record Activity Snapshots ---
+    // Every valid member is recorded (not only flagged ones) so activity can be followed over the term
+    // Dry runs leave history untouched
+    if (!dryRun) {
+      try {
+        const snapshotResult = await prisma.activitySnapshot.createMany({
+          data: evaluatedMembers.map(({ member, effectiveThreshold }) => ({
+            runId,
+            memberEmail: member.email.trim().toLowerCase(),
+            memberName: member.name || null,
+            role: member.role ?? null,
+            activityCount: member.activityCount,
+            threshold: effectiveThreshold,
+            belowThreshold: member.activityCount < effectiveThreshold,
+          })),
+        });
+        console.log(`Recorded ${snapshotResult.count} activity snapshots for run ${runId}.`);
+      } catch (snapshotError) {
+        // Snapshots are history only; don't block warnings if they can't be written
+        console.error(`Failed to record activity snapshots for run ${runId}:`, snapshotError);
+      }
+    }
+    // --- End Record Snapshots ---
+
+
+    // --- Select Members Below Threshold ---
+    const belowThresholdMembers: typeof evaluatedMembers = [];
+    for (const evaluated of evaluatedMembers) {
+      const { member } = evaluated;
+
+      // Members on an approved leave of absence are never flagged
+      const exemption = activeExemptions.get(member.email.trim().toLowerCase());
+      if (exemption) {
+        exemptedCount++;
+        console.log(`Skipping ${member.email}: exempt until ${exemption.endsAt.toISOString()} (${exemption.reason}).`);
+        continue;
+      }
+
+      if (member.activityCount < evaluated.effectiveThreshold) { // <-- Use effectiveThreshold
+        belowThresholdMembers.push(evaluated);
+      }
+    }
+    belowThresholdCount = belowThresholdMembers.length;
+    // --- End Select Members ---
+
+    // --- Load Earlier Warnings in Bulk ---
+    const history = await loadWarningHistory(
+      Array.from(new Set(belowThresholdMembers.map(({ member }) => member.email))),
+      rewarnBlockWhere
+    );
+    // --- End Load Earlier Warnings ---
+
+    const compiledTemplates = new Map<string, CompiledTemplate>(); // Template identifier -> compiled HTML (once per run)
+    const warnedThisRun = new Set<string>(); // Recipients already given a warning by this run
+    const unmatchedRoles = new Map<string, number>(); // Role (as written in the roster) -> members without a matching rule
+    const newWarnings: {
+      member: ClubMemberData;
+      effectiveThreshold: number;
+      stage: EscalationStage;
+      templateIdentifier: string;
+      templateVersionId: string | null;
+      variables: TemplateVariables;
+      sender: ResolvedSender | null;
+      subject: string;
+      html: string;
+    }[] = [];
+    const now = Date.now();
+
+    // --- Threshold Check ---
+    for (const { member, effectiveThreshold } of belowThresholdMembers) {
+        // A duplicate roster row would otherwise be blocked by the row queued for its first occurrence
+        if (warnedThisRun.has(member.email)) {
+          console.log(`Skipping email for ${member.email}. A warning was already queued for this member in this run.`);
+          continue;
+        }
+
+        const suppression = suppressedEmails.get(member.email.trim().toLowerCase());
+        if (suppression) {
+          suppressedCount++;
+          console.log(`Skipping email for ${member.email}. Address is suppressed (${suppression.reason}).`);
+          continue;
+        }
+
+        // ---> Determine Escalation Stage <--- 
+        // Escalate only if the last warning was sent and the member hasn't recovered since
+        let stage = getEscalationStage(1);
+        const lastWarning = history.lastWarnings.get(member.email);
+
+        if (lastWarning && lastWarning.status === EmailStatus.SENT && lastWarning.stage < FINAL_ESCALATION_LEVEL) {
+          const lastRecovery = history.lastRecoveries.get(member.email.trim().toLowerCase());
+          if (!lastRecovery || lastRecovery <= lastWarning.createdAt) {
+            stage = getEscalationStage(lastWarning.stage + 1);
+          }
+        }
+        const isEscalation = stage.level > 1;
+        // ---> End Determine Stage <--- 
+
+        // ---> Check for an earlier email that blocks this warning <--- 
+        // Escalations follow the ladder's own gaps, so only pending emails block them;
+        // a fresh stage 1 warning follows the re-warn policy
+        const blockingEmail = (history.blockingEmails.get(member.email) ?? [])
+          .find(email => !isEscalation || ALWAYS_BLOCKING_STATUSES.includes(email.status));
+
+        if (blockingEmail) {
+          console.log(`Skipping email for ${member.email}. Blocked by ${isEscalation ? 'a pending email' : 're-warn policy'} (ID: ${blockingEmail.id}, Status: ${blockingEmail.status}, Created: ${blockingEmail.createdAt.toISOString()}).`);
+          continue; // Skip to the next member
+        }
+
+        if (isEscalation && lastWarning) {
+          const lastSentAt = lastWarning.emailSentAt ?? lastWarning.createdAt;
+          const daysSinceLastWarning = (now - lastSentAt.getTime()) / DAY_MS;
+          if (daysSinceLastWarning < stage.minGapDays) {
+            console.log(`Skipping email for ${member.email}. Stage ${stage.level} (${stage.name}) needs ${stage.minGapDays} day(s) since the last warning, only ${Math.floor(daysSinceLastWarning)} have passed.`);
+            continue;
+          }
+        }
+        // ---> End Check <--- 
+
+        // --- Determine and Compile Specific Template --- 
+        const templateIdentifier = getStageTemplateIdentifier(stage, member.role, member.tags, templateRules);
+        if (!templateIdentifier) {
+          unmatchedCount++;
+          const roleLabel = member.role?.trim() || '(no role)';
+          unmatchedRoles.set(roleLabel, (unmatchedRoles.get(roleLabel) ?? 0) + 1);
+          console.warn(`Skipping email for ${member.email}. No template rule matches role '${member.role ?? ''}' or tags [${member.tags.join(', ')}].`);
+          continue;
+        }
+
+        // Only proceed if no blocking email was found and a template applies.
+        // Flagged and escalated counts are taken once the email is queued (or previewed), not here
+        console.log(`Flagging member: ${member.email} (Activity: ${member.activityCount}) at stage ${stage.level} (${stage.name}) using template: ${templateIdentifier}`);
+
+        let compiled = compiledTemplates.get(templateIdentifier);
+        if (!compiled) {
+          compiled = await compileTemplate(templateIdentifier);
+          compiledTemplates.set(templateIdentifier, compiled);
+        }
+
+        if (compiled.kind !== 'ok') {
+          const reason = compiled.kind === 'loadError'
+            ? `Failed to load template '${templateIdentifier}' for role '${member.role}'.`
+            : compiled.kind === 'variableError'
+              ? `Placeholder errors in template ${templateIdentifier}. First error: ${compiled.firstError}`
+              : `MJML rendering errors for template ${templateIdentifier}. First error: ${compiled.firstError}`;
+          console.warn(`${reason} (Row ${member.rowIndex})`);
+          errorsList.push({ rowIndex: member.rowIndex, reason, name: member.name, rowData: [member.name, member.email, member.activityCount, member.role ?? null] });
+          errorCount++;
+          continue;
+        }
+        // --- End Compile --- 
+
+        // Personalize the compiled HTML
+        const sender = resolveSender(senderIdentities, templateIdentifier, member.role);
+        const variables = buildTemplateVariables(
+          { name: member.name || 'Member', activityCount: member.activityCount, threshold: effectiveThreshold, role: member.role },
+          { ...templateContext, panelContact: sender?.replyTo ?? sender?.fromAddress ?? templateContext.panelContact }
+        );
+        // compileTemplate rejects templates whose placeholders MJML mangled, but one bad template must not end the run
+        let renderedHtml: string;
+        let renderedSubject: string;
+        try {
+          renderedHtml = fillTemplateVariables(compiled.html, variables);
+          renderedSubject = fillTemplateVariables(compiled.subject, variables, { plainText: true });
+        } catch (fillError) {
+          const reason = `Failed to fill template ${templateIdentifier}: ${fillError instanceof Error ? fillError.message : String(fillError)}`;
+          console.warn(`${reason} (Row ${member.rowIndex})`);
+          errorsList.push({ rowIndex: member.rowIndex, reason, name: member.name, rowData: [member.name, member.email, member.activityCount, member.role ?? null] });
+          errorCount++;
+          continue;
+        }
+
+        if (!renderedHtml) { 
+            console.warn(`Skipping DB entry for ${member.email} due to empty rendered HTML from template '${templateIdentifier}'.`);
+            continue;
+        }
+
+        warnedThisRun.add(member.email);
+        newWarnings.push({
+          member,
+          effectiveThreshold,
+          stage,
+          templateIdentifier,
+          templateVersionId: compiled.versionId,
+          variables,
+          sender,
+          subject: renderedSubject,
+          html: renderedHtml,
+        });
+    }
+    // --- End Threshold Check ---
+
+    unmatchedRoles.forEach((count, roleLabel) => {
+      warnings.push(`No template rule matches role '${roleLabel}' (${count} member${count === 1 ? '' : 's'}); they were not warned. Add a rule under Template Rules.`);
+    });
+
+    if (dryRun) {
+      newWarnings.forEach(({ member, effectiveThreshold, stage, templateIdentifier, subject }) => {
+        flaggedCount++;
+        if (stage.level > 1) escalatedCount++;
+        preview.push({
+          email: member.email,
+          name: member.name,
+          role: member.role ?? null,
+          activityCount: member.activityCount,
+          threshold: effectiveThreshold,
+          template: templateIdentifier,
+          subject,
+          stage: stage.level,
+          stageName: stage.name,
+        });
+      });
+    } else {
+      // --- Write Queue and Warning Rows in Batches ---
+      for (let i = 0; i < newWarnings.length; i += WRITE_BATCH_SIZE) {
+        const batch = newWarnings.slice(i, i + WRITE_BATCH_SIZE);
+        try {
+          await prisma.$transaction(async (tx) => {
+            const queuedEmails = await tx.emailQueue.createManyAndReturn({
+              data: batch.map(({ member, templateIdentifier, templateVersionId, variables, sender, subject, html }) => ({
+                recipientEmail: member.email,
+                recipientName: member.name,
+                subject,
+                bodyHtml: html,
+                template: templateIdentifier,
+                templateVersionId,
+                templateVariables: { ...variables },
+                status: EmailStatus.QUEUED,
+                ...sender,
+              })),
+              select: { id: true, recipientEmail: true },
+            });
+            // A member is warned at most once per run, so the address identifies the email within a batch
+            const emailIdsByRecipient = new Map(queuedEmails.map(email => [email.recipientEmail, email.id]));
+            await tx.warningLog.createMany({
+              data: batch.map(({ member, effectiveThreshold, stage, templateIdentifier, templateVersionId }) => ({
+                recipientEmail: member.email,
+                recipientName: member.name,
+                activityCount: member.activityCount,
+                threshold: effectiveThreshold, // <-- Store the ACTUAL threshold used
+                templateUsed: templateIdentifier,
+                templateVersionId,
+                stage: stage.level,
+                status: EmailStatus.QUEUED,
+                emailQueueId: emailIdsByRecipient.get(member.email),
+              })),
+            });
+          });
+          flaggedCount += batch.length; // Only count members whose email was actually queued
+          escalatedCount += batch.filter(({ stage }) => stage.level > 1).length;
+          console.log(`Queued ${batch.length} emails and logged warnings (batch ${i / WRITE_BATCH_SIZE + 1}).`);
+        } catch (dbError) {
+          console.error(`Failed to save batch of ${batch.length} warnings to DB:`, dbError);
+          errorCount += batch.length; // Still count as errors internally
+        }
+      }
+      // --- End Write Batches ---
+    }
+
+    // --- Trigger Pusher Event if emails were queued --- 
+    if (!dryRun && flaggedCount > 0) {
+        // Trigger event without sending sensitive data, client will refetch
+        await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { triggeredBy: 'checkMemberActivity' });
+    }
+    // --- End Trigger --- 
+
+    if (dryRun) {
+      const message = `Activity check preview. Checked: ${checkedCount}, Below Threshold: ${belowThresholdCount}, Exempted: ${exemptedCount}, Suppressed: ${suppressedCount}, Would Flag: ${flaggedCount} (Escalations: ${escalatedCount}), Unmatched: ${unmatchedCount}, Errors: ${errorCount}. Nothing was queued.`;
+      console.log(message);
+      return { success: true, message, checked: checkedCount, belowThreshold: belowThresholdCount, flagged: flaggedCount, escalated: escalatedCount, exempted: exemptedCount, suppressed: suppressedCount, unmatched: unmatchedCount, warnings, errors: errorCount, errorsList, preview };
+    }
+
+    const message = `Activity check complete. Checked: ${checkedCount}, Below Threshold: ${belowThresholdCount}, Exempted: ${exemptedCount}, Suppressed: ${suppressedCount}, Newly Flagged: ${flaggedCount} (Escalations: ${escalatedCount}), Unmatched: ${unmatchedCount}, Errors: ${errorCount}.`;
+    console.log(message);
+
+    // --- Record who ran the check (cron service or panel member) ---
+    try {
+      await prisma.adminLog.create({
+        data: buildAdminLogData(actor, 'triggered_activity_check', {
+          trigger: actor.type === 'service' ? 'cron' : 'manual',
+          runId,
+          checked: checkedCount,
+          belowThreshold: belowThresholdCount,
+          flagged: flaggedCount,
+          escalated: escalatedCount,
+          exempted: exemptedCount,
+          suppressed: suppressedCount,
+          unmatched: unmatchedCount,
+          warnings,
+          errors: errorCount,
+        }),
+      });
+    } catch (logError) {
+      // The emails are already queued, so a missing audit entry must not report the check as failed
+      console.error(`Failed to record the admin log for activity check run ${runId}:`, logError);
+    }
+    // --- End Record ---
+
+    // Return the errorsList along with other counts
+    return { success: true, message, checked: checkedCount, belowThreshold: belowThresholdCount, flagged: flaggedCount, escalated: escalatedCount, exempted: exemptedCount, suppressed: suppressedCount, unmatched: unmatchedCount, warnings, errors: errorCount, errorsList };
+
+  } catch (error) {
+    if (error instanceof RosterError) {
+      // Source and header problems make every row unreadable, so report them directly
+      return { success: false, message: error.message, checked: checkedCount, errors: errorCount, errorsList };
+    }
+    console.error("Error during member activity check:", error);
+    // Include the partially collected errors list even if a later exception occurs
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}`, checked: checkedCount, belowThreshold: belowThresholdCount, flagged: flaggedCount, errors: errorCount, errorsList };
+  }
+}
@@ -0,0 +1,45 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Identifies who triggered a server-side operation.
+ * - `user`: a signed-in panel member acting through the dashboard.
+ * - `service`: an automated caller (e.g. the Vercel cron) with no browser session.
+ */
+export type Actor =
+  | { type: 'user'; userId: string; email: string }
+  | { type: 'service'; name: string };
+
+// Default name for the cron caller if CRON_SERVICE_IDENTITY is not configured
+const DEFAULT_CRON_SERVICE_IDENTITY = 'vercel-cron';
+
+/**
+ * Returns the service identity used by the cron routes after they have verified CRON_SECRET.
+ */
+export function getCronActor(): Actor {
+  return { type: 'service', name: process.env.CRON_SERVICE_IDENTITY || DEFAULT_CRON_SERVICE_IDENTITY };
+}
+
+/**
+ * Human-readable label for logs and UI (e.g. "jane@club.org" or "service:vercel-cron").
+ */
+export function getActorLabel(actor: Actor): string {
+  return actor.type === 'user' ? actor.email : `service:${actor.name}`;
+}
+
+/**
+ * Builds the data for an AdminLog entry attributed to the given actor.
+ * Service actors have no User row, so adminUserId is left empty and the
+ * service label is stored in adminUserEmail.
+ */
+export function buildAdminLogData(
+  actor: Actor,
+  action: string,
+  details?: Prisma.InputJsonValue
+): Prisma.AdminLogUncheckedCreateInput {
+  return {
+    adminUserId: actor.type === 'user' ? actor.userId : null,
+    adminUserEmail: getActorLabel(actor),
+    action,
+    details,
+  };
+}
@@ -4,17 +4,14 @@ import { PrismaAdapter } from "@auth/prisma-adapter";
 import { prisma } from "@/lib/prisma";
 import { Adapter } from "next-auth/adapters";
 import { Role } from "@prisma/client";
-import { getSheetData } from "@/lib/googleSheets";
+import { getRosterCell, Roster, RosterError } from "@/lib/roster";
+import { loadRoster } from "@/lib/rosterProviders";
 
-// Define the ranges for the sheets via environment variables
+// Panel access is derived from the member roster (see ROSTER_PROVIDER in rosterProviders.ts)
 // const panelSheetRange = process.env.GOOGLE_SHEET_PANEL_MEMBERS_RANGE; // <-- REMOVED
-const memberSheetRange = process.env.GOOGLE_SHEET_MEMBER_DATA_RANGE;
 const panelAccessRolesRaw = process.env.PANEL_ACCESS_ROLES || "";
 const panelRolesList = panelAccessRolesRaw.split(',').map(role => role.trim().toLowerCase()).filter(Boolean);
 
-// Assuming indices based on COLUMN_INDICES in actions.ts
-const MEMBER_EMAIL_COLUMN_INDEX = 1;
-const MEMBER_ROLE_COLUMN_INDEX = 3; // Column D for Role
 
 // Define and export authOptions here
 export const authOptions: NextAuthOptions = {
@@ -52,41 +49,41 @@ export const authOptions: NextAuthOptions = {
         // let isPanel = false;
         // if (panelSheetRange) { ... }
 
-        // Check member sheet for role
-        if (memberSheetRange) {
-          const memberData = await getSheetData(memberSheetRange);
-          if (memberData) {
-            let userFound = false;
-            for (const row of memberData) {
-              const sheetEmail = row && String(row[MEMBER_EMAIL_COLUMN_INDEX]).trim().toLowerCase();
-              const sheetRoleRaw = row && String(row[MEMBER_ROLE_COLUMN_INDEX]).trim(); // Get raw role string
-              const sheetRoleLower = sheetRoleRaw.toLowerCase();
+        // Check member roster for role
+        let roster: Roster;
+        try {
+          // Columns are located by header name; Email and Role must be present
+          roster = await loadRoster(['email', 'role']);
+        } catch (rosterError) {
+          if (!(rosterError instanceof RosterError)) throw rosterError;
+          // A roster misconfiguration says nothing about this user, so don't demote panel members over it
+          console.error(`Failed to load member roster during signIn event: ${rosterError.message} Keeping the current role of ${user.email}.`);
+          return;
+        }
 
-              if (sheetEmail === userEmailLower) {
-                userFound = true;
-                specificRoleFromSheet = sheetRoleRaw; // Store the exact role string from the sheet
-                
-                if (panelRolesList.includes(sheetRoleLower)) {
-                  correctRole = Role.PANEL;
-                  console.log(`User ${user.email} found in member sheet with PANEL role: ${specificRoleFromSheet}.`);
-                } else {
-                  correctRole = Role.MEMBER;
-                  console.log(`User ${user.email} found in member sheet with MEMBER role: ${specificRoleFromSheet}.`);
-                }
-                break; // Stop searching once user is found
-              }
-            }
-            if (!userFound) {
-               console.log(`User ${user.email} not found in member sheet, assigning GUEST role.`);
-               // correctRole remains GUEST, specificRoleFromSheet remains null
+        let userFound = false;
+        for (const row of roster.rows) {
+          const sheetEmail = String(getRosterCell(roster, row, 'email') ?? '').trim().toLowerCase();
+          const sheetRoleRaw = String(getRosterCell(roster, row, 'role') ?? '').trim(); // Get raw role string
+          const sheetRoleLower = sheetRoleRaw.toLowerCase();
+
+          if (sheetEmail === userEmailLower) {
+            userFound = true;
+            specificRoleFromSheet = sheetRoleRaw; // Store the exact role string from the roster
+            
+            if (panelRolesList.includes(sheetRoleLower)) {
+              correctRole = Role.PANEL;
+              console.log(`User ${user.email} found in member roster with PANEL role: ${specificRoleFromSheet}.`);
+            } else {
+              correctRole = Role.MEMBER;
+              console.log(`User ${user.email} found in member roster with MEMBER role: ${specificRoleFromSheet}.`);
             }
-          } else {
-            console.error("Failed to fetch member data during signIn event. Assigning GUEST role.");
-             // correctRole remains GUEST, specificRoleFromSheet remains null
+            break; // Stop searching once user is found
           }
-        } else {
-          console.warn("Member sheet range not configured. Cannot determine role. Assigning GUEST role.");
-          // correctRole remains GUEST, specificRoleFromSheet remains null
+        }
+        if (!userFound) {
+           console.log(`User ${user.email} not found in member roster, assigning GUEST role.`);
+           // correctRole remains GUEST, specificRoleFromSheet remains null
         }
 
         // Update user role and specificRole in database
@@ -0,0 +1,194 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { EmailQueue, EmailStatus } from '@prisma/client';
+import {
+  getRetryDelayMs, getNextAttemptAt, getMaxSendAttempts, getEmailIdempotencyKey, parseScheduledAt, runEmailQueue, QUEUE_RUN_INTERVAL_MS,
+} from '@/lib/emailQueue';
+
+const { prismaMock, sendEmailMock } = vi.hoisted(() => ({
+  prismaMock: {
+    emailQueue: { findMany: vi.fn(), updateMany: vi.fn<(args: unknown) => Promise<{ count: number }>>(async () => ({ count: 1 })), update: vi.fn() },
+    warningLog: { updateMany: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+  sendEmailMock: vi.fn(async () => ({ success: true, messageId: 'msg_1' })),
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+vi.mock('@/lib/mailTransports', () => ({ sendEmail: sendEmailMock }));
+vi.mock('@/lib/pusher', () => ({ triggerPusherEvent: vi.fn(), ADMIN_CHANNEL: 'admin-updates', EMAIL_QUEUE_EVENT: 'email-queue-updated' }));
+vi.mock('@/lib/runLock', () => ({ acquireRunLock: vi.fn(async () => ({ acquired: true, token: 'lock-token' })), releaseRunLock: vi.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+afterEach(() => {
+  delete process.env.EMAIL_MAX_SEND_ATTEMPTS;
+});
+
+// Interval between runs of a cron schedule of the forms this repo uses ('M * * * *' hourly, 'M H * * *' daily)
+function cronIntervalMs(schedule: string): number {
+  const [minute, hour, ...rest] = schedule.split(/\s+/);
+  expect(/^\d+$/.test(minute) && rest.every(field => field === '*')).toBe(true);
+  return hour === '*' ? HOUR_MS : 24 * HOUR_MS;
+}
+
+describe('queue schedule', () => {
+  it('matches the process-queue cron in vercel.json', () => {
+    const { crons } = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'vercel.json'), 'utf-8')) as { crons: { path: string; schedule: string }[] };
+    const queueCron = crons.find(cron => cron.path === '/api/cron/process-queue');
+    expect(queueCron).toBeDefined();
+    expect(cronIntervalMs(queueCron!.schedule)).toBe(QUEUE_RUN_INTERVAL_MS);
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('waits one queue run after the first failure and doubles each time', () => {
+    expect([1, 2, 3, 4].map(getRetryDelayMs)).toEqual([1, 2, 4, 8].map(runs => runs * QUEUE_RUN_INTERVAL_MS));
+  });
+
+  it('never retries before the next queue run', () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      expect(getRetryDelayMs(attempt)).toBeGreaterThanOrEqual(QUEUE_RUN_INTERVAL_MS);
+    }
+  });
+
+  it('caps the delay at a day', () => {
+    expect(getRetryDelayMs(5)).toBe(16 * HOUR_MS);
+    expect(getRetryDelayMs(6)).toBe(24 * HOUR_MS);
+    expect(getRetryDelayMs(50)).toBe(24 * HOUR_MS);
+  });
+
+  it('treats attempt counts below 1 as the first failure', () => {
+    expect(getRetryDelayMs(0)).toBe(QUEUE_RUN_INTERVAL_MS);
+  });
+
+  it('spreads the default attempts over less than a day', () => {
+    const totalDelay = Array.from({ length: getMaxSendAttempts() - 1 }, (_, index) => getRetryDelayMs(index + 1)).reduce((sum, delay) => sum + delay, 0);
+    expect(totalDelay).toBeLessThan(24 * HOUR_MS);
+  });
+});
+
+describe('getNextAttemptAt', () => {
+  it('lands on the queue run nearest the backoff', () => {
+    // A send finishing seconds into the 14:00 run retries at the 15:00 run, not 16:00
+    expect(getNextAttemptAt(1, new Date('2025-05-01T14:00:05Z'))).toEqual(new Date('2025-05-01T15:00:00Z'));
+    expect(getNextAttemptAt(2, new Date('2025-05-01T14:00:05Z'))).toEqual(new Date('2025-05-01T16:00:00Z'));
+    // Sends between runs (Send Approved Now) round to the nearest run
+    expect(getNextAttemptAt(1, new Date('2025-05-01T14:40:00Z'))).toEqual(new Date('2025-05-01T16:00:00Z'));
+    expect(getNextAttemptAt(1, new Date('2025-05-01T14:20:00Z'))).toEqual(new Date('2025-05-01T15:00:00Z'));
+  });
+});
+
+describe('getMaxSendAttempts', () => {
+  it('defaults to 5 and accepts a positive override', () => {
+    expect(getMaxSendAttempts()).toBe(5);
+    process.env.EMAIL_MAX_SEND_ATTEMPTS = '3';
+    expect(getMaxSendAttempts()).toBe(3);
+  });
+
+  it('ignores invalid overrides', () => {
+    for (const value of ['0', '-2', 'many']) {
+      process.env.EMAIL_MAX_SEND_ATTEMPTS = value;
+      expect(getMaxSendAttempts()).toBe(5);
+    }
+  });
+});
+
+describe('getEmailIdempotencyKey', () => {
+  it('is stable per email and attempt', () => {
+    expect(getEmailIdempotencyKey('abc', 2)).toBe('email-queue/abc/2');
+    expect(getEmailIdempotencyKey('abc', 2)).not.toBe(getEmailIdempotencyKey('abc', 3));
+  });
+});
+
+describe('parseScheduledAt', () => {
+  it('returns null when no send time is chosen', () => {
+    expect(parseScheduledAt(undefined)).toBeNull();
+    expect(parseScheduledAt(null)).toBeNull();
+    expect(parseScheduledAt('')).toBeNull();
+  });
+
+  it('parses ISO timestamps', () => {
+    expect(parseScheduledAt('2025-05-01T09:30:00.000Z')).toEqual(new Date('2025-05-01T09:30:00.000Z'));
+  });
+
+  it('returns undefined for values that are not a time', () => {
+    expect(parseScheduledAt('next tuesday')).toBeUndefined();
+  });
+});
+
+describe('runEmailQueue', () => {
+  const NOW = new Date('2025-05-01T12:00:00Z');
+  const ACTOR = { type: 'service', name: 'test' } as const;
+  const ago = (ms: number) => new Date(NOW.getTime() - ms);
+
+  const approvedEmail = (id: string) => ({
+    id, recipientEmail: `${id}@example.com`, subject: 'Activity reminder', bodyHtml: '<p>Hi</p>',
+    fromName: null, fromAddress: null, replyTo: null, attemptCount: 0, lastError: null,
+  }) as unknown as EmailQueue;
+
+  // findMany is called for the stuck SENDING rows first, then for the APPROVED rows due now
+  const queue = (stuck: { id: string; claimedAt: Date | null }[], approved: EmailQueue[] = []) => {
+    prismaMock.emailQueue.findMany.mockResolvedValueOnce(stuck).mockResolvedValueOnce(approved);
+  };
+
+  const statusSetFor = (id: string) => prismaMock.emailQueue.updateMany.mock.calls
+    .map(([args]) => args as { where: { id: string }; data: { status: EmailStatus } })
+    .filter(args => args.where.id === id)
+    .map(args => args.data.status);
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('only looks at SENDING rows never claimed or claimed over ten minutes ago', async () => {
+    queue([]);
+    await runEmailQueue(ACTOR);
+    expect(prismaMock.emailQueue.findMany.mock.calls[0][0]).toMatchObject({
+      where: { status: EmailStatus.SENDING, OR: [{ claimedAt: null }, { claimedAt: { lt: ago(10 * 60 * 1000) } }] },
+    });
+  });
+
+  it('returns claims inside the 24h idempotency window to APPROVED and fails the rest', async () => {
+    queue([
+      { id: 'recent', claimedAt: ago(20 * 60 * 1000) },
+      { id: 'just-inside', claimedAt: ago(24 * HOUR_MS - 1) },
+      { id: 'expired', claimedAt: ago(24 * HOUR_MS) },
+      { id: 'unclaimed', claimedAt: null },
+    ]);
+    const result = await runEmailQueue(ACTOR);
+
+    expect(result.recovered).toBe(2);
+    expect(statusSetFor('recent')).toEqual([EmailStatus.APPROVED]);
+    expect(statusSetFor('just-inside')).toEqual([EmailStatus.APPROVED]);
+    expect(statusSetFor('expired')).toEqual([EmailStatus.FAILED]);
+    expect(statusSetFor('unclaimed')).toEqual([EmailStatus.FAILED]);
+    expect(prismaMock.warningLog.updateMany.mock.calls.map(([args]) => args)).toEqual([
+      { where: { emailQueueId: 'expired' }, data: { status: EmailStatus.FAILED } },
+      { where: { emailQueueId: 'unclaimed' }, data: { status: EmailStatus.FAILED } },
+    ]);
+  });
+
+  it('does not send an email whose claim updates no rows', async () => {
+    queue([], [approvedEmail('taken'), approvedEmail('free')]);
+    prismaMock.emailQueue.updateMany.mockResolvedValueOnce({ count: 0 }).mockResolvedValueOnce({ count: 1 });
+
+    const result = await runEmailQueue(ACTOR);
+
+    expect(sendEmailMock).toHaveBeenCalledTimes(1);
+    expect(sendEmailMock).toHaveBeenCalledWith(expect.objectContaining({ to: 'free@example.com' }));
+    expect(prismaMock.emailQueue.update).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ success: true, processed: 1, sent: 1 });
+  });
+});
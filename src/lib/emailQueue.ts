@@ -0,0 +1,271 @@
+import { prisma } from '@/lib/prisma';
+import { EmailStatus } from '@prisma/client';
+import { sendEmail, SendEmailResult } from '@/lib/mailTransports';
+import { formatFromHeader } from '@/lib/senderIdentity';
+import { triggerPusherEvent, ADMIN_CHANNEL, EMAIL_QUEUE_EVENT } from '@/lib/pusher';
+import { Actor, getActorLabel } from '@/lib/actor';
+import { acquireRunLock, releaseRunLock, RunLockResult } from '@/lib/runLock';
+
+// A claimed row is sent within seconds, so one still SENDING after this long belongs to a run that died
+const SENDING_STALE_MS = 10 * 60 * 1000;
+
+// Resend remembers idempotency keys for 24 hours. A stuck row older than that cannot be
+// retried safely because a repeat send would no longer be recognised as a duplicate.
+const IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Attempts per email before it is left FAILED (EMAIL_MAX_SEND_ATTEMPTS overrides)
+const DEFAULT_MAX_SEND_ATTEMPTS = 5;
+
+// How often the process-queue cron in vercel.json runs ('0 * * * *'). Nothing is sent between runs,
+// so retry delays are counted in runs; emailQueue.test.ts checks this against vercel.json.
+export const QUEUE_RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+// The first retry waits one queue run and each later one twice as long as the last, up to the cap
+const RETRY_BASE_DELAY_MS = QUEUE_RUN_INTERVAL_MS;
+const RETRY_MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+export function getMaxSendAttempts(): number {
+  const configured = parseInt(process.env.EMAIL_MAX_SEND_ATTEMPTS || '', 10);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_SEND_ATTEMPTS;
+}
+
+// Delay before the retry that follows failed attempt number `attemptCount` (1-based)
+export function getRetryDelayMs(attemptCount: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attemptCount - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+// When the retry after failed attempt `attemptCount` is due: the queue run nearest the backoff, so a send that
+// finished a few seconds into a run isn't pushed back a whole extra run, and the Outbox shows the real run time
+export function getNextAttemptAt(attemptCount: number, now: Date = new Date()): Date {
+  const due = now.getTime() + getRetryDelayMs(attemptCount);
+  return new Date(Math.round(due / QUEUE_RUN_INTERVAL_MS) * QUEUE_RUN_INTERVAL_MS);
+}
+
+// Stable per queue row and attempt: a recovered in-flight send reuses its key,
+// while a retry after a reported failure gets a fresh one
+export function getEmailIdempotencyKey(emailQueueId: string, attempt: number): string {
+  return `email-queue/${emailQueueId}/${attempt}`;
+}
+
+/**
+ * Parses the optional send time chosen when approving emails (an ISO timestamp from the panel).
+ * Returns null for "send on the next queue run" and undefined if the value is not a valid time.
+ */
+export function parseScheduledAt(value?: string | null): Date | null | undefined {
+  if (!value) return null;
+  const scheduledAt = new Date(value);
+  return isNaN(scheduledAt.getTime()) ? undefined : scheduledAt;
+}
+
+export interface EmailQueueResult {
+  success: boolean;
+  message: string;
+  processed?: number;
+  sent?: number;
+  failed?: number;
+  retrying?: number; // Failed attempts that will be retried after a backoff
+  recovered?: number; // Rows found stuck in SENDING and returned to APPROVED for a retry
+  inProgress?: boolean; // Another run held the queue lock; nothing was sent
+}
+
+/**
+ * Sends every APPROVED email in the queue. Shared by the panel action and the cron route.
+ * Only one run may process the queue at a time; a concurrent caller gets `inProgress`
+ * back instead of sending the same emails a second time.
+ */
+export async function runEmailQueue(actor: Actor): Promise<EmailQueueResult> {
+  let lock: RunLockResult;
+  try {
+    lock = await acquireRunLock('email-queue', actor);
+  } catch (error) {
+    console.error("Error acquiring the email queue run lock:", error);
+    return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  if (!lock.acquired) {
+    return { success: false, message: lock.message, inProgress: true };
+  }
+
+  try {
+    const recovered = await recoverStuckEmails();
+    const result = await sendApprovedEmails(actor);
+    return recovered > 0 ? { ...result, recovered, message: `${result.message} Recovered ${recovered} email(s) stuck in sending.` } : result;
+  } finally {
+    await releaseRunLock('email-queue', lock.token);
+  }
+}
+
+/**
+ * Returns rows left in SENDING by a run that died mid-send to APPROVED, so this run retries
+ * them with the same idempotency key (the transport drops the repeat if the first send went out).
+ * Rows claimed too long ago for that to be safe are marked FAILED for the panel to review.
+ */
+async function recoverStuckEmails(): Promise<number> {
+  const now = Date.now();
+  try {
+    const stuckEmails = await prisma.emailQueue.findMany({
+      where: { status: EmailStatus.SENDING, OR: [{ claimedAt: null }, { claimedAt: { lt: new Date(now - SENDING_STALE_MS) } }] },
+      select: { id: true, claimedAt: true },
+    });
+    let recovered = 0;
+    for (const email of stuckEmails) {
+      const retryable = email.claimedAt !== null && email.claimedAt.getTime() > now - IDEMPOTENCY_WINDOW_MS;
+      if (retryable) {
+        await prisma.emailQueue.updateMany({
+          where: { id: email.id, status: EmailStatus.SENDING },
+          data: { status: EmailStatus.APPROVED, claimedAt: null },
+        });
+        recovered++;
+        console.warn(`Email ID ${email.id} was stuck in SENDING; returned to APPROVED for a retry.`);
+      } else {
+        await prisma.$transaction([
+          prisma.emailQueue.updateMany({
+            where: { id: email.id, status: EmailStatus.SENDING },
+            data: { status: EmailStatus.FAILED, claimedAt: null, nextAttemptAt: null, lastError: 'Stuck in sending past the idempotency window; delivery is unknown.' },
+          }),
+          prisma.warningLog.updateMany({
+            where: { emailQueueId: email.id },
+            data: { status: EmailStatus.FAILED },
+          }),
+        ]);
+        console.error(`Email ID ${email.id} was stuck in SENDING beyond the idempotency window; marked FAILED.`);
+      }
+    }
+    return recovered;
+  } catch (error) {
+    // Stuck rows are picked up again next run, so don't block today's sends on this
+    console.error("Error recovering emails stuck in SENDING:", error);
+    return 0;
+  }
+}
+
+async function sendApprovedEmails(actor: Actor): Promise<EmailQueueResult> {
+    console.log("Starting approved email queue processing..."); // Updated log
+    let processedCount = 0;
+    let sentCount = 0;
+    let failedCount = 0;
+    let retryingCount = 0;
+    const maxAttempts = getMaxSendAttempts();
+
+    try {
+        // 1. Fetch APPROVED emails whose send time has arrived (retries only once their backoff has passed)
+        const now = new Date();
+        const emailsToProcess = await prisma.emailQueue.findMany({
+            where: {
+                status: EmailStatus.APPROVED, // <-- Changed from QUEUED to APPROVED
+                AND: [
+                    { OR: [{ scheduledAt: null }, { scheduledAt: { lte: now } }] },
+                    { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: now } }] },
+                ],
+            },
+        });
+
+        processedCount = emailsToProcess.length;
+
+        if (processedCount === 0) {
+            const message = "Email queue processing complete. No approved emails were due for sending."; // Updated log
+            console.log(message);
+            return { success: true, message, processed: 0, sent: 0, failed: 0, retrying: 0 };
+        }
+
+        console.log(`Found ${processedCount} emails approved for sending.`); // Updated log
+
+        // 2. Process each email
+        for (const email of emailsToProcess) {
+            // Claim the row before sending. Only a row that is still APPROVED can be claimed,
+            // so an email is never handed to the transport by two runs.
+            const claim = await prisma.emailQueue.updateMany({
+                where: { id: email.id, status: EmailStatus.APPROVED },
+                data: { status: EmailStatus.SENDING, claimedAt: new Date() },
+            });
+            if (claim.count === 0) {
+                processedCount--;
+                console.log(`Email ID ${email.id} is no longer APPROVED; skipping.`);
+                continue;
+            }
+
+            const attempt = email.attemptCount + 1;
+            let sendResult: SendEmailResult | null = null; // Initialize sendResult
+            let sendError: string | null = null;
+            try {
+                console.log(`Attempting to send APPROVED email ID ${email.id} to ${email.recipientEmail} (attempt ${attempt} of ${maxAttempts})`);
+                // 3. Attempt to send email
+                sendResult = await sendEmail({
+                    to: email.recipientEmail,
+                    subject: email.subject,
+                    html: email.bodyHtml,
+                    // Rows queued before sender identities existed fall back to the transport default
+                    from: email.fromAddress ? formatFromHeader(email.fromName, email.fromAddress) : undefined,
+                    reply_to: email.replyTo ?? undefined,
+                    idempotencyKey: getEmailIdempotencyKey(email.id, attempt),
+                });
+
+                if (sendResult.success) {
+                    console.log(`Successfully sent email ID ${email.id} to ${email.recipientEmail}. Message ID: ${sendResult.messageId}`);
+                } else {
+                    sendError = sendResult.error || 'Unknown transport error';
+                    console.error(`Failed to send email ID ${email.id} to ${email.recipientEmail}: ${sendError}`);
+                }
+            } catch (error) {
+                sendError = error instanceof Error ? error.message : String(error);
+                console.error(`Error processing email ID ${email.id} for ${email.recipientEmail} (exception during send):`, error);
+            }
+
+            // A failed attempt goes back to APPROVED with a backoff until the attempts run out
+            const willRetry = sendError !== null && attempt < maxAttempts;
+            const finalStatus: EmailStatus = sendError === null ? EmailStatus.SENT : willRetry ? EmailStatus.APPROVED : EmailStatus.FAILED;
+
+            // 4. Update status in DB (EmailQueue and WarningLog)
+            try {
+                // Determine the message ID to store (null if not sent successfully)
+                const messageIdToStore = (finalStatus === EmailStatus.SENT && sendResult?.messageId) ? sendResult.messageId : null;
+                const nextAttemptAt = willRetry ? getNextAttemptAt(attempt) : null;
+
+                await prisma.$transaction([
+                    prisma.emailQueue.update({
+                        where: { id: email.id, status: EmailStatus.SENDING },
+                        data: { 
+                            status: finalStatus, 
+                            resendMessageId: messageIdToStore, // Use the variable here
+                            attemptCount: attempt,
+                            lastError: sendError ?? email.lastError,
+                            nextAttemptAt,
+                            claimedAt: null,
+                        }, 
+                    }),
+                    // Update related WarningLog entry (a retry leaves it APPROVED)
+                    ...(willRetry ? [] : [prisma.warningLog.updateMany({
+                         where: { emailQueueId: email.id },
+                         data: { 
+                            status: finalStatus, // Update WarningLog to SENT or FAILED
+                            emailSentAt: finalStatus === EmailStatus.SENT ? new Date() : null // Add timestamp if sent
+                         },
+                    })]),
+                ]);
+                console.log(`Updated status to ${finalStatus} for email ID ${email.id}${willRetry ? ` (retry at ${nextAttemptAt?.toISOString()})` : ''}. Message ID: ${messageIdToStore}`);
+
+                if (finalStatus === EmailStatus.SENT) sentCount++;
+                else if (willRetry) retryingCount++;
+                else failedCount++;
+            } catch (dbError) {
+                // The row stays SENDING; the next run's recovery retries it with the same idempotency key
+                console.error(`Failed to update status for email ID ${email.id} in database; it stays SENDING until recovered:`, dbError);
+                failedCount++;
+            }
+        }
+
+        // --- Trigger Pusher Event if emails were processed --- 
+        if (processedCount > 0) {
+            console.log("Processing complete, triggering Pusher event.");
+            await triggerPusherEvent(ADMIN_CHANNEL, EMAIL_QUEUE_EVENT, { triggeredBy: getActorLabel(actor) });
+        }
+        // --- End Trigger --- 
+
+        const message = `Email queue processing finished. Processed: ${processedCount}, Sent: ${sentCount}, Failed: ${failedCount}, Retrying later: ${retryingCount}.`;
+        console.log(message);
+        return { success: true, message, processed: processedCount, sent: sentCount, failed: failedCount, retrying: retryingCount };
+
+    } catch (error) {
+        console.error("Error during email queue processing:", error);
+        return { success: false, message: `An unexpected error occurred: ${error instanceof Error ? error.message : String(error)}` };
+    }
+}
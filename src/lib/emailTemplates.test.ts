@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { applyPreheader, checkCompiledPlaceholders, renderMjml, validateTemplate } from '@/lib/emailTemplates';
+
+const wrap = (body: string) => `<mjml>\n<mj-body>\n${body}\n</mj-body>\n</mjml>`;
+const section = (content: string) => `<mj-section><mj-column>${content}</mj-column></mj-section>`;
+
+describe('validateTemplate', () => {
+  it('accepts placeholders in text blocks and attributes', () => {
+    const mjml = wrap(section('<mj-text>Hi {{name}}, {{#if deficit}}{{deficit}} to go{{else}}on track{{/if}}</mj-text><mj-button href="{{portalUrl}}">Open</mj-button>'));
+    const { errors } = validateTemplate({ mjml, subject: 'Hi {{name}}', preheader: null }, ['name', 'deficit', 'portalUrl']);
+    expect(errors).toEqual([]);
+  });
+
+  it('rejects conditionals MJML drops between sections', () => {
+    const mjml = wrap(`{{#if deficit}}\n${section('<mj-text>Behind</mj-text>')}\n{{/if}}`);
+    const { errors } = validateTemplate({ mjml, subject: 'Hi', preheader: null }, ['deficit']);
+    expect(errors.map(({ line, message }) => [line, message.split(' ')[0]])).toEqual([[3, '{{#if'], [5, '{{/if}}']]);
+  });
+
+  it('reports undeclared and unknown variables in the subject and preheader', () => {
+    const mjml = wrap(section('<mj-text>Hi</mj-text>'));
+    const { errors } = validateTemplate({ mjml, subject: '{{role}}', preheader: '{{bogus}}' }, []);
+    expect(errors).toEqual([
+      { line: 1, message: "Variable 'role' is not declared for this template.", tagName: 'subject' },
+      { line: 1, message: "Unknown variable 'bogus'.", tagName: 'preheader' },
+    ]);
+  });
+
+  it('requires a subject', () => {
+    const { errors } = validateTemplate({ mjml: wrap(section('<mj-text>Hi</mj-text>')), subject: '  ', preheader: null }, []);
+    expect(errors).toEqual([{ line: 0, message: 'Subject cannot be empty.', tagName: 'subject' }]);
+  });
+});
+
+describe('checkCompiledPlaceholders', () => {
+  it('finds no problems when every placeholder survives', () => {
+    const mjml = wrap(section('<mj-text>{{name}}</mj-text>'));
+    expect(checkCompiledPlaceholders(mjml, renderMjml(mjml).html)).toEqual([]);
+  });
+
+  it('reports a lone dropped {{else}}', () => {
+    const mjml = wrap(`${section('<mj-text>{{#if deficit}}Behind</mj-text>')}\n{{else}}\n${section('<mj-text>Fine{{/if}}</mj-text>')}`);
+    expect(checkCompiledPlaceholders(mjml, renderMjml(mjml).html).map(({ line }) => line)).toEqual([4]);
+  });
+});
+
+describe('applyPreheader', () => {
+  it('replaces the existing <mj-preview> without adding lines', () => {
+    const mjml = '<mjml>\n<mj-head><mj-preview>Old</mj-preview></mj-head>\n<mj-body></mj-body>\n</mjml>';
+    const result = applyPreheader(mjml, 'New & {{name}}');
+    expect(result).toBe('<mjml>\n<mj-head><mj-preview>New &amp; {{name}}</mj-preview></mj-head>\n<mj-body></mj-body>\n</mjml>');
+  });
+
+  it('adds a head when the MJML has none', () => {
+    expect(applyPreheader('<mjml>\n<mj-body></mj-body>\n</mjml>', 'Hi')).toBe('<mjml><mj-head><mj-preview>Hi</mj-preview></mj-head>\n<mj-body></mj-body>\n</mjml>');
+  });
+
+  it('leaves the MJML alone without a preheader', () => {
+    expect(applyPreheader('<mjml></mjml>', '  ')).toBe('<mjml></mjml>');
+  });
+});
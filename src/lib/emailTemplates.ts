@@ -0,0 +1,395 @@
+import { prisma } from '@/lib/prisma';
+import { EmailTemplateVersion, Prisma } from '@prisma/client';
+// Import necessary modules for MJML rendering
+import mjml from 'mjml';
+import fs from 'fs/promises';
+import path from 'path';
+import { escapeHtml, parseTemplate, renderTemplate, TemplateTag } from '@/lib/templateEngine';
+import { diffLines } from '@/lib/textDiff';
+import { getRewarnPolicy } from '@/lib/rewarnPolicy';
+
+// The .mjml files shipped with the app seed the registry and are what "reset to default" restores
+const DEFAULT_TEMPLATE_DIR = path.join(process.cwd(), 'src', 'emails');
+
+// Identifiers end up in file paths and queue rows, so keep them to a safe slug
+const TEMPLATE_IDENTIFIER_PATTERN = /^[a-z0-9_]+$/;
+
+// --- Variable Schema ---
+// Every variable a template can use. Each template declares the ones it needs (EmailTemplate.variables),
+// and a template using anything it hasn't declared is rejected.
+export interface TemplateVariableDefinition {
+  type: 'string' | 'number';
+  description: string;
+}
+
+export const TEMPLATE_VARIABLE_SCHEMA = {
+  name: { type: 'string', description: "Member's name from the roster" },
+  activityCount: { type: 'number', description: 'Activities recorded for the member' },
+  threshold: { type: 'number', description: 'Activities required for their role' },
+  role: { type: 'string', description: "Member's role (may be empty)" },
+  deficit: { type: 'number', description: 'Activities still needed to reach the threshold' },
+  portalUrl: { type: 'string', description: 'Link to the member status portal (PORTAL_URL or NEXTAUTH_URL)' },
+  panelContact: { type: 'string', description: "Address replies reach (the sender's reply-to or from address)" },
+  termName: { type: 'string', description: 'Current term from the re-warn policy (may be empty)' },
+} satisfies Record<string, TemplateVariableDefinition>;
+
+export type TemplateVariableName = keyof typeof TEMPLATE_VARIABLE_SCHEMA;
+
+export function isTemplateVariableName(name: string): name is TemplateVariableName {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLE_SCHEMA, name);
+}
+
+// Values filled into a template's {{placeholders}}; stored on each queued email so it can be re-rendered
+export interface TemplateVariables {
+  name: string;
+  activityCount: number;
+  threshold: number;
+  role: string;
+  deficit: number;
+  portalUrl: string;
+  panelContact: string;
+  termName: string;
+}
+
+// Emails queued before the richer variables existed only stored these three
+export type StoredTemplateVariables = Pick<TemplateVariables, 'name' | 'activityCount' | 'threshold'> & Partial<TemplateVariables>;
+
+// Values that come from the app's configuration rather than the member
+export type TemplateContext = Pick<TemplateVariables, 'portalUrl' | 'panelContact' | 'termName'>;
+
+export async function loadTemplateContext(): Promise<TemplateContext> {
+  const policy = await getRewarnPolicy();
+  return {
+    portalUrl: process.env.PORTAL_URL || process.env.NEXTAUTH_URL || '',
+    panelContact: process.env.MAIL_FROM || '',
+    termName: policy.termName ?? '',
+  };
+}
+
+export function buildTemplateVariables(
+  member: { name: string; activityCount: number; threshold: number; role?: string | null },
+  context: TemplateContext
+): TemplateVariables {
+  return {
+    name: member.name,
+    activityCount: member.activityCount,
+    threshold: member.threshold,
+    role: member.role?.trim() ?? '',
+    deficit: Math.max(member.threshold - member.activityCount, 0),
+    ...context,
+  };
+}
+
+// Stand-in member used for previews in the template editor
+export const SAMPLE_TEMPLATE_VARIABLES: TemplateVariables = {
+  name: 'Alex Example',
+  activityCount: 2,
+  threshold: 5,
+  role: 'General Member',
+  deficit: 3,
+  portalUrl: 'https://clubpulse.example.org',
+  panelContact: 'panel@example.org',
+  termName: 'Spring 2025',
+};
+
+// Variables used in a template source that exist in the schema (what a default template declares)
+export function detectTemplateVariables(source: string): TemplateVariableName[] {
+  return Array.from(parseTemplate(source).variables.keys()).filter(isTemplateVariableName);
+}
+// --- End Variable Schema ---
+
+// An MJML validation error, or a placeholder problem (tagName is empty for those)
+export interface TemplateValidationError {
+  line: number;
+  message: string;
+  tagName: string;
+}
+
+export function isValidTemplateIdentifier(identifier: string): boolean {
+  return TEMPLATE_IDENTIFIER_PATTERN.test(identifier);
+}
+
+// --- Default Templates (src/emails) ---
+export async function readDefaultTemplate(identifier: string): Promise<string | null> {
+  if (!isValidTemplateIdentifier(identifier)) return null;
+  try {
+    return await fs.readFile(path.join(DEFAULT_TEMPLATE_DIR, `${identifier}.mjml`), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+async function listDefaultTemplateIdentifiers(): Promise<string[]> {
+  const files = await fs.readdir(DEFAULT_TEMPLATE_DIR);
+  return files
+    .filter(file => file.endsWith('.mjml'))
+    .map(file => file.slice(0, -'.mjml'.length))
+    .filter(isValidTemplateIdentifier);
+}
+
+// Subject lines for the shipped templates; other templates start with DEFAULT_TEMPLATE_SUBJECT
+export const DEFAULT_TEMPLATE_SUBJECT = 'Club Activity Alert for {{name}}';
+const DEFAULT_TEMPLATE_SUBJECTS: Record<string, string> = {
+  low_activity_co_director: 'Director Activity Review for {{name}}',
+  low_activity_senior_executive: 'Senior Executive Activity Check for {{name}}',
+  low_activity_executive: 'Executive Activity Reminder for {{name}}',
+  low_activity_junior_executive: 'Junior Executive Engagement for {{name}}',
+  low_activity_new_recruit: 'Getting Started at the Club, {{name}}',
+  low_activity_general_member: 'Club Activity Check-in for {{name}}',
+  low_activity_formal_warning: 'Formal Activity Warning for {{name}}',
+  low_activity_final_notice: 'Final Notice: Club Activity for {{name}}',
+};
+
+/**
+ * What "reset to default" restores: the file's MJML with its own <mj-preview> as the preheader,
+ * the template's default subject, and the variables the file uses.
+ */
+export function getDefaultTemplateContent(identifier: string, mjmlSource: string): TemplateContent & { variables: string[] } {
+  const subject = DEFAULT_TEMPLATE_SUBJECTS[identifier] ?? DEFAULT_TEMPLATE_SUBJECT;
+  return { mjml: mjmlSource, subject, preheader: null, variables: detectTemplateVariables(`${mjmlSource}\n${subject}`) };
+}
+
+// Adds a default template to the registry as its first version. Returns false if it is already there.
+async function seedDefaultTemplate(identifier: string): Promise<boolean> {
+  const mjmlSource = await readDefaultTemplate(identifier);
+  if (mjmlSource === null) return false;
+  try {
+    return await prisma.$transaction(async (tx) => {
+      if (await tx.emailTemplate.findUnique({ where: { identifier }, select: { id: true } })) return false;
+      await saveTemplateVersion(tx, { identifier, ...getDefaultTemplateContent(identifier, mjmlSource), createdBy: null, note: 'Default template' });
+      return true;
+    });
+  } catch (error) {
+    // Another request seeded it at the same time
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false;
+    throw error;
+  }
+}
+
+/**
+ * Copies every default template that is not in the registry yet into it.
+ * Existing rows are left alone, so edits made in the panel survive deploys.
+ */
+export async function seedDefaultTemplates(): Promise<number> {
+  const identifiers = await listDefaultTemplateIdentifiers();
+  const existing = await prisma.emailTemplate.findMany({ where: { identifier: { in: identifiers } }, select: { identifier: true } });
+  const existingIdentifiers = new Set(existing.map(template => template.identifier));
+  let count = 0;
+  for (const identifier of identifiers.filter(id => !existingIdentifiers.has(id))) {
+    if (await seedDefaultTemplate(identifier)) count++;
+  }
+  if (count > 0) console.log(`Seeded ${count} email template(s) from ${DEFAULT_TEMPLATE_DIR}.`);
+  return count;
+}
+// --- End Default Templates ---
+
+// --- Versions ---
+/**
+ * Records a template change as a new immutable version and makes it the template's current content.
+ * Every save, reset and rollback goes through here, so the history is complete.
+ */
+export async function saveTemplateVersion(
+  tx: Prisma.TransactionClient,
+  change: TemplateContent & { identifier: string; variables: string[]; createdBy: string | null; note?: string | null }
+): Promise<EmailTemplateVersion> {
+  const latest = await tx.emailTemplateVersion.findFirst({
+    where: { identifier: change.identifier },
+    orderBy: { version: 'desc' },
+    select: { version: true },
+  });
+  const version = await tx.emailTemplateVersion.create({
+    data: {
+      identifier: change.identifier,
+      version: (latest?.version ?? 0) + 1,
+      mjml: change.mjml,
+      subject: change.subject,
+      preheader: change.preheader,
+      variables: change.variables,
+      createdBy: change.createdBy,
+      note: change.note ?? null,
+    },
+  });
+  await tx.emailTemplate.upsert({
+    where: { identifier: change.identifier },
+    update: { mjml: change.mjml, subject: change.subject, preheader: change.preheader, variables: change.variables, updatedBy: change.createdBy, currentVersionId: version.id },
+    create: { identifier: change.identifier, mjml: change.mjml, subject: change.subject, preheader: change.preheader, variables: change.variables, updatedBy: change.createdBy, currentVersionId: version.id },
+  });
+  return version;
+}
+// --- End Versions ---
+
+// Every template in the registry, for panel pickers
+export async function listTemplateIdentifiers(): Promise<string[]> {
+  await seedDefaultTemplates();
+  const templates = await prisma.emailTemplate.findMany({ select: { identifier: true }, orderBy: { identifier: 'asc' } });
+  return templates.map(template => template.identifier);
+}
+
+// The editable parts of a template
+export interface TemplateContent {
+  mjml: string;
+  subject: string;
+  preheader: string | null;
+}
+
+export interface TemplateSource extends TemplateContent {
+  variables: string[]; // Declared variables
+  currentVersionId: string | null;
+}
+
+// Loads a template from the registry, seeding it from its default file on first use
+export async function getTemplateSource(identifier: string): Promise<TemplateSource | null> {
+  const select = { mjml: true, subject: true, preheader: true, variables: true, currentVersionId: true } as const;
+  const template = await prisma.emailTemplate.findUnique({ where: { identifier }, select });
+  if (template) return template;
+
+  await seedDefaultTemplate(identifier);
+  return prisma.emailTemplate.findUnique({ where: { identifier }, select });
+}
+
+// Renders MJML to HTML. Markup MJML cannot parse at all is reported as a single error on line 1.
+export function renderMjml(source: string): { html: string; errors: TemplateValidationError[] } {
+  try {
+    const { html, errors } = mjml(source, { validationLevel: 'soft' });
+    return { html, errors: errors.map(({ line, message, tagName }) => ({ line, message, tagName })) };
+  } catch (parseError) {
+    return { html: '', errors: [{ line: 1, message: parseError instanceof Error ? parseError.message : String(parseError), tagName: 'mjml' }] };
+  }
+}
+
+// Placeholder problems in one part of a template (tagName names the part: '' for the MJML, 'subject' or 'preheader')
+function checkPlaceholders(source: string, declared: string[], tagName: string): TemplateValidationError[] {
+  const { variables, errors } = parseTemplate(source);
+  const result: TemplateValidationError[] = errors.map(({ line, message }) => ({ line, message, tagName }));
+  variables.forEach((line, name) => {
+    if (!isTemplateVariableName(name)) {
+      result.push({ line, message: `Unknown variable '${name}'.`, tagName });
+    } else if (!declared.includes(name)) {
+      result.push({ line, message: `Variable '${name}' is not declared for this template.`, tagName });
+    }
+  });
+  return result;
+}
+
+/**
+ * Checks a template's placeholders in the MJML, subject and preheader: the syntax, that every variable
+ * used is declared, and that every declared variable exists in TEMPLATE_VARIABLE_SCHEMA.
+ */
+export function validateTemplateVariables(content: TemplateContent, declared: string[]): TemplateValidationError[] {
+  const result: TemplateValidationError[] = declared
+    .filter(name => !isTemplateVariableName(name))
+    .map(name => ({ line: 0, message: `Declared variable '${name}' does not exist.`, tagName: '' }));
+  if (!content.subject.trim()) {
+    result.push({ line: 0, message: 'Subject cannot be empty.', tagName: 'subject' });
+  }
+  return [
+    ...result,
+    ...checkPlaceholders(content.mjml, declared, ''),
+    ...checkPlaceholders(content.subject, declared, 'subject'),
+    ...checkPlaceholders(content.preheader ?? '', declared, 'preheader'),
+  ];
+}
+
+/**
+ * Checks that every placeholder in the MJML survived compilation. MJML drops text between block elements
+ * (e.g. an {{#if}} between two <mj-section>s) without an error, which would leave a conditional always shown
+ * or an unbalanced {{#if}} that fails when members' values are filled in.
+ */
+export function checkCompiledPlaceholders(mjmlSource: string, html: string): TemplateValidationError[] {
+  const sourceTags = parseTemplate(mjmlSource).tags;
+  const compiled = parseTemplate(html);
+  // MJML keeps placeholders in order, so line up the two tag lists like a diff (one tag per line)
+  const toLines = (tags: TemplateTag[]) => tags.map(({ tag }) => tag.replace(/\s+/g, ' ')).join('\n');
+  const result: TemplateValidationError[] = [];
+  let sourceIndex = 0;
+  diffLines(toLines(sourceTags), toLines(compiled.tags)).forEach(({ type, text }) => {
+    if (type === 'added') {
+      if (text) result.push({ line: 0, message: `{{${text}}} appears in the compiled HTML but not in the MJML.`, tagName: '' });
+      return;
+    }
+    const { line } = sourceTags[sourceIndex++] ?? { line: 0 };
+    if (type === 'removed' && text) {
+      result.push({ line, message: `{{${text}}} is dropped by MJML. Placeholders must be inside a text block such as <mj-text> or in an attribute.`, tagName: '' });
+    }
+  });
+  if (result.length === 0) {
+    compiled.errors.forEach(({ message }) => result.push({ line: 0, message: `Compiled HTML: ${message}`, tagName: '' }));
+  }
+  return result;
+}
+
+// Everything the editor reports for a template: placeholder problems first, then MJML errors
+export function validateTemplate(content: TemplateContent, declared: string[]): { html: string; errors: TemplateValidationError[] } {
+  const mjmlSource = applyPreheader(content.mjml, content.preheader);
+  const { html, errors } = renderMjml(mjmlSource);
+  const variableErrors = validateTemplateVariables(content, declared);
+  // Only compare placeholders once both the source and the MJML are valid, or every problem is reported twice
+  const compiledErrors = variableErrors.length === 0 && errors.length === 0 ? checkCompiledPlaceholders(mjmlSource, html) : [];
+  return { html, errors: [...variableErrors, ...errors, ...compiledErrors] };
+}
+
+/**
+ * Puts the template's preheader into the MJML head, replacing any <mj-preview> the MJML has.
+ * Everything is inserted on existing lines, so MJML error line numbers still match the editor.
+ */
+export function applyPreheader(mjmlSource: string, preheader: string | null | undefined): string {
+  if (!preheader?.trim()) return mjmlSource;
+  // Values are escaped when the compiled HTML is rendered; escape the preheader's own text here
+  const preview = `<mj-preview>${escapeHtml(preheader.trim())}</mj-preview>`;
+  const withoutPreview = mjmlSource.replace(/<mj-preview>[\s\S]*?<\/mj-preview>/g, '');
+  if (/<mj-head>/.test(withoutPreview)) return withoutPreview.replace(/<mj-head>/, `<mj-head>${preview}`);
+  return withoutPreview.replace(/<mjml([^>]*)>/, `<mjml$1><mj-head>${preview}</mj-head>`);
+}
+
+// --- Helper Function: Compile a template ---
+// Compiled once per run; each member's values are filled into the compiled HTML. Templates whose placeholders
+// MJML dropped are rejected here, so filling only fails on a bug
+export type CompiledTemplate =
+  | { kind: 'ok'; html: string; subject: string; versionId: string | null } // Version the HTML and subject came from
+  | { kind: 'loadError' }
+  | { kind: 'variableError'; firstError: string }
+  | { kind: 'mjmlError'; firstError: string };
+
+export async function compileTemplate(identifier: string): Promise<CompiledTemplate> {
+  let template: TemplateSource | null;
+  try {
+    template = await getTemplateSource(identifier);
+  } catch (templateError) {
+    console.error(`Failed to load template '${identifier}':`, templateError);
+    return { kind: 'loadError' };
+  }
+  if (template === null) {
+    console.error(`Template '${identifier}' is not in the registry and has no default file.`);
+    return { kind: 'loadError' };
+  }
+  console.log(`Loaded template '${identifier}'.`);
+
+  // Saved templates are checked already; this catches default files edited outside the panel
+  const variableErrors = validateTemplateVariables(template, template.variables);
+  if (variableErrors.length > 0) {
+    console.warn(`Placeholder errors in template ${identifier}:`, variableErrors);
+    const [firstError] = variableErrors;
+    return { kind: 'variableError', firstError: `${firstError.tagName ? `${firstError.tagName}, line` : 'Line'} ${firstError.line}: ${firstError.message}` };
+  }
+
+  const mjmlSource = applyPreheader(template.mjml, template.preheader);
+  const { html, errors: mjmlErrors } = renderMjml(mjmlSource);
+  if (mjmlErrors.length > 0) {
+    console.warn(`MJML rendering errors for template ${identifier}:`, mjmlErrors);
+    const [firstError] = mjmlErrors;
+    return { kind: 'mjmlError', firstError: `Line ${firstError.line} (${firstError.tagName}): ${firstError.message}` };
+  }
+  const compiledErrors = checkCompiledPlaceholders(mjmlSource, html);
+  if (compiledErrors.length > 0) {
+    console.warn(`Placeholders lost compiling template ${identifier}:`, compiledErrors);
+    const [firstError] = compiledErrors;
+    return { kind: 'variableError', firstError: `Line ${firstError.line}: ${firstError.message}` };
+  }
+  return { kind: 'ok', html, subject: template.subject, versionId: template.currentVersionId };
+}
+// --- End Helper Function ---
+
+// Personalize compiled HTML with a member's values (escaped), or a subject line with `plainText`
+export function fillTemplateVariables(content: string, variables: TemplateVariables, options: { plainText?: boolean } = {}): string {
+  return renderTemplate(content, { ...variables }, options);
+}
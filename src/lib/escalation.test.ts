@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { ESCALATION_STAGES, FINAL_ESCALATION_LEVEL, getEscalationStage, getEscalationStageLabel } from '@/lib/escalation';
+
+describe('ESCALATION_STAGES', () => {
+  it('numbers stages 1, 2, 3... in escalation order', () => {
+    expect(ESCALATION_STAGES.map(stage => stage.level)).toEqual(ESCALATION_STAGES.map((_, index) => index + 1));
+    expect(FINAL_ESCALATION_LEVEL).toBe(ESCALATION_STAGES.length);
+  });
+
+  it('picks the first warning template from the template rules and fixes later ones', () => {
+    expect(ESCALATION_STAGES[0].templateIdentifier).toBeNull();
+    expect(ESCALATION_STAGES.slice(1).every(stage => stage.templateIdentifier)).toBe(true);
+  });
+
+  it('sends the first warning without waiting and spaces out escalations', () => {
+    expect(ESCALATION_STAGES[0].minGapDays).toBe(0);
+    expect(ESCALATION_STAGES.slice(1).every(stage => stage.minGapDays > 0)).toBe(true);
+  });
+});
+
+describe('getEscalationStage', () => {
+  it('returns the stage for each level', () => {
+    ESCALATION_STAGES.forEach(stage => expect(getEscalationStage(stage.level)).toBe(stage));
+  });
+
+  it('clamps levels outside the ladder', () => {
+    expect(getEscalationStage(FINAL_ESCALATION_LEVEL + 1).level).toBe(FINAL_ESCALATION_LEVEL);
+    expect(getEscalationStage(0).level).toBe(1);
+  });
+});
+
+describe('getEscalationStageLabel', () => {
+  it('labels known and unknown levels', () => {
+    expect(getEscalationStageLabel(2)).toBe('Stage 2 · Formal warning');
+    expect(getEscalationStageLabel(9)).toBe('Stage 9');
+  });
+});
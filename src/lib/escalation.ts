@@ -0,0 +1,37 @@
+// Escalation ladder for low-activity warnings. A member who stays below threshold after a
+// warning was sent moves up one stage on a later check, once the next stage's gap has passed.
+// If they recover in between (a snapshot at or above threshold), the ladder starts over at
+// stage 1 and the re-warn policy decides when that can happen.
+//
+// Kept free of server-only imports so client components can show stage names.
+
+export interface EscalationStage {
+  level: number; // 1-based, in escalation order
+  name: string;
+  templateIdentifier: string | null; // null = pick the template from the panel's template rules (see templateRules.ts)
+  minGapDays: number; // Minimum days since the previous stage's email was sent
+}
+
+export const ESCALATION_STAGES: EscalationStage[] = [
+  { level: 1, name: 'Friendly reminder', templateIdentifier: null, minGapDays: 0 },
+  { level: 2, name: 'Formal warning', templateIdentifier: 'low_activity_formal_warning', minGapDays: 14 },
+  { level: 3, name: 'Final notice', templateIdentifier: 'low_activity_final_notice', minGapDays: 14 },
+];
+
+export const FINAL_ESCALATION_LEVEL = ESCALATION_STAGES[ESCALATION_STAGES.length - 1].level;
+
+/**
+ * Returns the stage for a level, clamped to the ladder (levels above the last stage get the final notice).
+ */
+export function getEscalationStage(level: number): EscalationStage {
+  return ESCALATION_STAGES.find(stage => stage.level === level)
+    ?? (level > FINAL_ESCALATION_LEVEL ? ESCALATION_STAGES[ESCALATION_STAGES.length - 1] : ESCALATION_STAGES[0]);
+}
+
+/**
+ * Display label for a stage level, e.g. "Stage 2 · Formal warning".
+ */
+export function getEscalationStageLabel(level: number): string {
+  const stage = ESCALATION_STAGES.find(s => s.level === level);
+  return stage ? `Stage ${stage.level} · ${stage.name}` : `Stage ${level}`;
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { parseExemptionDate } from '@/lib/exemptions';
+
+describe('parseExemptionDate', () => {
+  it('starts at the first millisecond of the UTC day', () => {
+    expect(parseExemptionDate('2025-05-01', 'start')).toEqual(new Date('2025-05-01T00:00:00.000Z'));
+  });
+
+  it('ends at the last millisecond of the UTC day, so the end date is included', () => {
+    const endsAt = parseExemptionDate('2025-05-31', 'end')!;
+    expect(endsAt).toEqual(new Date('2025-05-31T23:59:59.999Z'));
+    expect(endsAt.getTime() + 1).toBe(parseExemptionDate('2025-06-01', 'start')!.getTime());
+  });
+
+  it('covers a single day when both boundaries use the same date', () => {
+    const startsAt = parseExemptionDate('2024-02-29', 'start')!;
+    const endsAt = parseExemptionDate('2024-02-29', 'end')!;
+    expect(endsAt.getTime() - startsAt.getTime()).toBe(24 * 60 * 60 * 1000 - 1);
+  });
+
+  it('rejects malformed and impossible dates', () => {
+    for (const value of ['', '2025-5-1', '01/05/2025', '2025-05-01T00:00', ' 2025-05-01', '2025-13-01', '2025-02-30', '2025-02-29', '2025-04-31', 'not a date']) {
+      expect(parseExemptionDate(value, 'start')).toBeNull();
+      expect(parseExemptionDate(value, 'end')).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import { prisma } from '@/lib/prisma';
+import { ActivityExemption } from '@prisma/client';
+
+/**
+ * Loads the exemptions in effect at `now`, keyed by lowercase member email.
+ * If a member has overlapping exemptions, the one ending last is kept.
+ */
+export async function getActiveExemptions(now: Date = new Date()): Promise<Map<string, ActivityExemption>> {
+  const exemptions = await prisma.activityExemption.findMany({
+    where: { startsAt: { lte: now }, endsAt: { gte: now } },
+    orderBy: { endsAt: 'asc' },
+  });
+  return new Map(exemptions.map(exemption => [exemption.memberEmail, exemption]));
+}
+
+/**
+ * Returns the exemption in effect for a member at `now`, or null.
+ */
+export async function findActiveExemption(email: string, now: Date = new Date()): Promise<ActivityExemption | null> {
+  return prisma.activityExemption.findFirst({
+    where: { memberEmail: email.trim().toLowerCase(), startsAt: { lte: now }, endsAt: { gte: now } },
+    orderBy: { endsAt: 'desc' },
+  });
+}
+
+/**
+ * Parses a date from the panel form (YYYY-MM-DD) as the start or end of that day (UTC).
+ * Returns null for anything that isn't a valid date.
+ */
+export function parseExemptionDate(value: string, boundary: 'start' | 'end'): Date | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const date = new Date(`${value}T${boundary === 'start' ? '00:00:00.000' : '23:59:59.999'}Z`);
+  // Date rolls impossible days over (2025-02-30 becomes March 2), so the day must survive the round trip
+  return isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { Resend, CreateEmailResponse } from 'resend';
+import nodemailer, { Transporter } from 'nodemailer';
+
+// Define the structure for email parameters
+export interface SendEmailParams {
+  to: string | string[];
+  subject: string;
+  html: string; // Pre-rendered HTML (MJML is compiled before queueing)
+  from?: string; // Optional: Defaults to MAIL_FROM, then onboarding@resend.dev
+  reply_to?: string;
+  idempotencyKey?: string; // Same key = same email; transports that support it won't send twice
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  messageId: string | null; // Provider message id (stored as EmailQueue.resendMessageId)
+  error?: string;
+}
+
+/**
+ * A way of delivering an email. Every transport returns the same result shape,
+ * so the queue does not need to know which one is configured.
+ */
+export interface MailTransport {
+  name: string; // Human-readable transport name for logs
+  send(params: SendEmailParams & { from: string }): Promise<SendEmailResult>;
+}
+
+// Sender used when the caller does not pass one
+const DEFAULT_FROM_ADDRESS = 'onboarding@resend.dev';
+
+// --- Resend Transport ---
+// Uses RESEND_API_KEY
+
+// REST endpoint used for keyed sends (the installed SDK version cannot pass an Idempotency-Key header)
+const RESEND_EMAILS_ENDPOINT = 'https://api.resend.com/emails';
+
+let resendClient: Resend | null = null;
+
+function toResendResult(response: CreateEmailResponse): SendEmailResult {
+  return response.error
+    ? { success: false, messageId: null, error: response.error.message || 'Unknown Resend error' }
+    : { success: true, messageId: response.data?.id ?? null };
+}
+
+/**
+ * Posts an email to the Resend REST API with an Idempotency-Key header.
+ */
+async function sendWithIdempotencyKey(
+  apiKey: string,
+  body: { from: string; to: string | string[]; subject: string; html: string; reply_to?: string },
+  idempotencyKey: string
+): Promise<SendEmailResult> {
+  const response = await fetch(RESEND_EMAILS_ENDPOINT, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+      'Idempotency-Key': idempotencyKey,
+    },
+    body: JSON.stringify(body),
+  });
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    return { success: false, messageId: null, error: payload?.message ?? `Resend request failed with status ${response.status}.` };
+  }
+  return { success: true, messageId: payload?.id ?? null };
+}
+
+const resendTransport: MailTransport = {
+  name: 'Resend',
+  async send({ to, subject, html, from, reply_to, idempotencyKey }) {
+    const apiKey = process.env.RESEND_API_KEY;
+    if (!apiKey) {
+      console.error("RESEND_API_KEY environment variable is not set. Cannot send email.");
+      return { success: false, messageId: null, error: 'Resend is not configured (RESEND_API_KEY is missing).' };
+    }
+
+    if (idempotencyKey) {
+      return sendWithIdempotencyKey(apiKey, { from, to, subject, html, reply_to }, idempotencyKey);
+    }
+    resendClient ??= new Resend(apiKey);
+    return toResendResult(await resendClient.emails.send({ from, to, subject, html, replyTo: reply_to }));
+  },
+};
+
+// --- SMTP Transport ---
+// Uses SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER and SMTP_PASS (e.g. a local Mailpit on port 1025)
+
+let smtpTransporter: Transporter | null = null;
+
+function getSmtpTransporter(): Transporter | null {
+  if (smtpTransporter) return smtpTransporter;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    console.error("SMTP_HOST environment variable is not set.");
+    return null;
+  }
+  const port = parseInt(process.env.SMTP_PORT || '', 10);
+  const user = process.env.SMTP_USER;
+  smtpTransporter = nodemailer.createTransport({
+    host,
+    port: Number.isInteger(port) ? port : 587,
+    secure: process.env.SMTP_SECURE === 'true', // true for implicit TLS (port 465)
+    auth: user ? { user, pass: process.env.SMTP_PASS } : undefined,
+  });
+  return smtpTransporter;
+}
+
+// SMTP has no idempotency, but a stable Message-ID lets the receiving side spot repeats
+function getKeyedMessageId(idempotencyKey: string | undefined): string | undefined {
+  return idempotencyKey ? `<${idempotencyKey.replace(/[^A-Za-z0-9.-]/g, '.')}@clubpulse>` : undefined;
+}
+
+const smtpTransport: MailTransport = {
+  name: 'SMTP',
+  async send({ to, subject, html, from, reply_to, idempotencyKey }) {
+    const transporter = getSmtpTransporter();
+    if (!transporter) {
+      return { success: false, messageId: null, error: 'SMTP is not configured (SMTP_HOST is missing).' };
+    }
+    const info = await transporter.sendMail({ from, to, subject, html, replyTo: reply_to, messageId: getKeyedMessageId(idempotencyKey) });
+    return { success: true, messageId: info.messageId ?? null };
+  },
+};
+
+// --- File Transport ---
+// Writes each email as an .eml file to MAIL_FILE_DIR (default: .mail-outbox in the project root)
+// and logs a summary, for development and tests. Nothing leaves the machine.
+
+const DEFAULT_MAIL_FILE_DIR = '.mail-outbox';
+
+// Builds the raw message without sending it
+const emlBuilder = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'unix' });
+
+const fileTransport: MailTransport = {
+  name: 'file',
+  async send({ to, subject, html, from, reply_to, idempotencyKey }) {
+    const configuredDir = process.env.MAIL_FILE_DIR || DEFAULT_MAIL_FILE_DIR;
+    const outputDir = path.isAbsolute(configuredDir) ? configuredDir : path.join(process.cwd(), configuredDir);
+
+    const info = await emlBuilder.sendMail({ from, to, subject, html, replyTo: reply_to, messageId: getKeyedMessageId(idempotencyKey) });
+    // A repeated idempotency key overwrites the earlier file instead of adding a second copy
+    const baseName = idempotencyKey ? idempotencyKey.replace(/[^A-Za-z0-9.-]/g, '_') : `${Date.now()}-${randomUUID()}`;
+    const filePath = path.join(outputDir, `${baseName}.eml`);
+
+    await fs.mkdir(outputDir, { recursive: true });
+    await fs.writeFile(filePath, info.message as Buffer);
+    console.log(`[file transport] "${subject}" to ${Array.isArray(to) ? to.join(', ') : to} written to ${filePath}`);
+    return { success: true, messageId: info.messageId ?? null };
+  },
+};
+
+const MAIL_TRANSPORTS: Record<string, MailTransport> = {
+  'resend': resendTransport,
+  'smtp': smtpTransport,
+  'file': fileTransport,
+};
+
+/**
+ * Returns the transport selected by MAIL_TRANSPORT. If it is not set, Resend is used when
+ * RESEND_API_KEY is configured; otherwise development falls back to the file transport
+ * (production keeps Resend, so a missing key fails loudly instead of writing files).
+ */
+export function getMailTransport(): MailTransport {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  const transportKey = configured
+    || (process.env.RESEND_API_KEY || process.env.NODE_ENV === 'production' ? 'resend' : 'file');
+  const transport = MAIL_TRANSPORTS[transportKey];
+  if (!transport) {
+    throw new Error(`Unknown MAIL_TRANSPORT '${transportKey}'. Expected one of: ${Object.keys(MAIL_TRANSPORTS).join(', ')}.`);
+  }
+  return transport;
+}
+
+/**
+ * Sends an email through the configured transport.
+ * Never throws: configuration and delivery problems come back as `success: false` with the reason.
+ */
+export async function sendEmail(params: SendEmailParams): Promise<SendEmailResult> {
+  try {
+    const transport = getMailTransport();
+    const from = params.from || process.env.MAIL_FROM || DEFAULT_FROM_ADDRESS;
+    const result = await transport.send({ ...params, from });
+    if (result.success) {
+      console.log(`Email sent successfully via ${transport.name}: ID ${result.messageId}`);
+    } else {
+      console.error(`Email could not be sent via ${transport.name}: ${result.error}`);
+    }
+    return result;
+  } catch (error) {
+    console.error("Error sending email:", error);
+    return { success: false, messageId: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
@@ -12,6 +12,10 @@ if (!appId || !key || !secret || !cluster) {
   );
 }
 
+// Channel and event names shared by server actions and cron routes (clients subscribe to these)
+export const ADMIN_CHANNEL = 'admin-updates';
+export const EMAIL_QUEUE_EVENT = 'email-queue-updated';
+
 // Initialize Pusher server client only if all variables are set
 export const pusherServer = 
     (appId && key && secret && cluster) 
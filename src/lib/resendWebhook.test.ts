@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeliveryStatus, SuppressionReason } from '@prisma/client';
+import { handleResendEvent } from '@/lib/resendWebhook';
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: {
+    emailQueue: { findFirst: vi.fn(), update: vi.fn() },
+    warningLog: { updateMany: vi.fn() },
+    emailSuppression: { upsert: vi.fn() },
+    $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+
+const event = (type: string, bounce?: { type?: string; message?: string }) => ({
+  type,
+  data: { email_id: 'resend_1', created_at: '2025-05-01T12:00:00Z', ...(bounce ? { bounce } : {}) },
+});
+
+// The email the event refers to, with the delivery status already recorded for it
+const recorded = (deliveryStatus: DeliveryStatus | null) => {
+  prismaMock.emailQueue.findFirst.mockResolvedValue({ id: 'email_1', recipientEmail: ' Ann@Example.com ', deliveryStatus });
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('delivery status ordering', () => {
+  it('records a more severe status over a milder one', async () => {
+    recorded(DeliveryStatus.DELIVERED);
+    await handleResendEvent(event('email.bounced', { type: 'Permanent' }));
+    expect(prismaMock.emailQueue.update).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ deliveryStatus: DeliveryStatus.BOUNCED }),
+    }));
+  });
+
+  it('never downgrades, e.g. a late delivered after a bounce', async () => {
+    const milderThan: [DeliveryStatus, string][] = [
+      [DeliveryStatus.BOUNCED, 'email.delivered'],
+      [DeliveryStatus.COMPLAINED, 'email.bounced'],
+      [DeliveryStatus.DELIVERED, 'email.delivery_delayed'],
+      [DeliveryStatus.DELIVERED, 'email.delivered'],
+    ];
+    for (const [current, type] of milderThan) {
+      recorded(current);
+      const result = await handleResendEvent(event(type));
+      expect(result).toEqual({ status: 200, message: 'Event acknowledged, a later delivery status is already recorded.' });
+    }
+    expect(prismaMock.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('suppressions', () => {
+  it('suppresses the normalized address on a hard bounce or a complaint', async () => {
+    const cases: [string, { type?: string } | undefined, SuppressionReason][] = [
+      ['email.bounced', { type: 'Permanent' }, SuppressionReason.BOUNCED],
+      ['email.bounced', undefined, SuppressionReason.BOUNCED],
+      ['email.complained', undefined, SuppressionReason.COMPLAINED],
+    ];
+    for (const [type, bounce, reason] of cases) {
+      prismaMock.emailSuppression.upsert.mockClear();
+      recorded(null);
+      await handleResendEvent(event(type, bounce));
+      expect(prismaMock.emailSuppression.upsert).toHaveBeenCalledWith({
+        where: { email: 'ann@example.com' },
+        update: {},
+        create: { email: 'ann@example.com', reason, detail: null, sourceEmailQueueId: 'email_1' },
+      });
+    }
+  });
+
+  it('does not suppress on a transient bounce, a delay or a delivery', async () => {
+    for (const [type, bounce] of [['email.bounced', { type: 'Transient' }], ['email.delivery_delayed'], ['email.delivered']] as const) {
+      recorded(null);
+      await handleResendEvent(event(type, bounce));
+    }
+    expect(prismaMock.$transaction).toHaveBeenCalledTimes(3);
+    expect(prismaMock.emailSuppression.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,235 @@
+import { prisma } from '@/lib/prisma';
+import { DeliveryStatus, Prisma, SuppressionReason, WebhookEvent } from '@prisma/client';
+
+// --- Define types for Resend Webhook Payload ---
+interface ResendBounce {
+  type?: string; // 'Permanent' or 'Transient'
+  subType?: string;
+  message?: string;
+}
+
+interface ResendWebhookData {
+  email_id: string;
+  created_at: string; // Received as string
+  bounce?: ResendBounce;
+}
+
+export interface ResendWebhookPayload {
+  type: string;
+  data?: ResendWebhookData;
+}
+// --- End Type Definitions ---
+
+// HTTP status and body text to answer Resend with
+export interface WebhookHandlingResult {
+  status: number;
+  message: string;
+}
+
+// Delivery events and the status they record
+const DELIVERY_EVENTS: Record<string, DeliveryStatus> = {
+  'email.delivery_delayed': DeliveryStatus.DELIVERY_DELAYED,
+  'email.delivered': DeliveryStatus.DELIVERED,
+  'email.bounced': DeliveryStatus.BOUNCED,
+  'email.complained': DeliveryStatus.COMPLAINED,
+};
+
+// Events can arrive out of order, so a status never replaces a more severe one
+// (a late "delivered" must not hide a bounce)
+const DELIVERY_SEVERITY: DeliveryStatus[] = [
+  DeliveryStatus.DELIVERY_DELAYED,
+  DeliveryStatus.DELIVERED,
+  DeliveryStatus.BOUNCED,
+  DeliveryStatus.COMPLAINED,
+];
+
+/**
+ * Applies one Resend webhook event to the database.
+ * Unknown events and unknown message ids are acknowledged with 200 so Resend does not retry them;
+ * database failures return 500 so it does.
+ */
+export async function handleResendEvent(payload: ResendWebhookPayload): Promise<WebhookHandlingResult> {
+  const eventType = payload?.type;
+  const data = payload?.data;
+
+  if (eventType === 'email.opened' && data) {
+    return handleOpened(data);
+  }
+  const deliveryStatus = eventType ? DELIVERY_EVENTS[eventType] : undefined;
+  if (deliveryStatus && data) {
+    return handleDeliveryEvent(eventType, deliveryStatus, data);
+  }
+
+  // Handle other event types or ignore them
+  console.log(`Ignoring webhook event type: ${eventType || 'unknown'}`);
+  return { status: 200, message: 'Event type not handled or payload invalid' }; // Still return 200 for unhandled types
+}
+
+/**
+ * Stores a verified webhook request and applies it. A redelivery of an event that was already
+ * applied (same svix-id, handled without a server error) is acknowledged without applying it again.
+ */
+export async function recordAndProcessEvent(svixId: string | null, payload: ResendWebhookPayload): Promise<WebhookHandlingResult> {
+  let event: WebhookEvent;
+  try {
+    const existing = svixId ? await prisma.webhookEvent.findUnique({ where: { svixId } }) : null;
+    if (existing && existing.outcomeStatus !== null && existing.outcomeStatus < 500) {
+      console.log(`Webhook event ${svixId} was already processed (status ${existing.outcomeStatus}). Skipping.`);
+      return { status: 200, message: 'Event already processed' };
+    }
+    event = existing ?? await prisma.webhookEvent.create({
+      data: {
+        svixId,
+        eventType: payload?.type || 'unknown',
+        payload: payload as unknown as Prisma.InputJsonValue,
+      },
+    });
+  } catch (dbError) {
+    console.error("Failed to store webhook event:", dbError);
+    return { status: 500, message: 'Internal Server Error while storing the event' };
+  }
+
+  return applyStoredEvent(event);
+}
+
+/**
+ * Applies a stored event again (e.g. after fixing a handler bug). Handlers skip changes
+ * that are already recorded, so replaying an event that succeeded is harmless.
+ */
+export async function replayWebhookEvent(eventId: string): Promise<WebhookHandlingResult | null> {
+  const event = await prisma.webhookEvent.findUnique({ where: { id: eventId } });
+  return event ? applyStoredEvent(event) : null;
+}
+
+async function applyStoredEvent(event: WebhookEvent): Promise<WebhookHandlingResult> {
+  const result = await handleResendEvent(event.payload as unknown as ResendWebhookPayload);
+  try {
+    await prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: {
+        processedAt: new Date(),
+        processCount: { increment: 1 },
+        outcomeStatus: result.status,
+        outcomeMessage: result.message,
+      },
+    });
+  } catch (dbError) {
+    // The event itself was handled; only the audit row is stale
+    console.error(`Failed to record the outcome of webhook event ${event.id}:`, dbError);
+  }
+  return result;
+}
+
+async function handleOpened(data: ResendWebhookData): Promise<WebhookHandlingResult> {
+  const resendMessageId = data.email_id;
+  const openedTimestamp = data.created_at ? new Date(data.created_at) : new Date();
+
+  if (!resendMessageId) {
+    console.warn("Webhook 'email.opened' event missing email_id.");
+    return { status: 400, message: 'Missing email_id in payload' };
+  }
+
+  console.log(`Processing 'email.opened' event for Resend ID: ${resendMessageId}`);
+
+  try {
+    // Find the EmailQueue entry using the Resend message ID
+    // Use findFirst instead of findUnique as resendMessageId is indexed but not strictly unique in the schema
+    const emailEntry = await prisma.emailQueue.findFirst({
+      where: { resendMessageId: resendMessageId },
+      select: { id: true, openedAt: true }, // Select necessary fields
+    });
+
+    if (!emailEntry) {
+      console.warn(`No EmailQueue entry found for Resend ID: ${resendMessageId}`);
+      // Still return 200 OK to Resend, as we can't process this specific ID
+      return { status: 200, message: 'Email entry not found, but acknowledged' };
+    }
+
+    // Avoid updating if already marked as opened (optional, but good practice)
+    if (emailEntry.openedAt) {
+      console.log(`Email ${emailEntry.id} (Resend ID: ${resendMessageId}) already marked as opened at ${emailEntry.openedAt}. Skipping update.`);
+      return { status: 200, message: 'Event acknowledged, email already marked opened.' };
+    }
+
+    // Update the EmailQueue and WarningLog in a transaction
+    await prisma.$transaction([
+      prisma.emailQueue.update({
+        where: { id: emailEntry.id },
+        data: { openedAt: openedTimestamp },
+      }),
+      prisma.warningLog.updateMany({
+        where: { emailQueueId: emailEntry.id },
+        data: { emailOpened: true },
+      }),
+    ]);
+
+    console.log(`Successfully marked email ${emailEntry.id} (Resend ID: ${resendMessageId}) and associated warning log(s) as opened.`);
+    return { status: 200, message: 'Webhook processed successfully' };
+
+  } catch (dbError) {
+    console.error(`Database error processing 'email.opened' event for Resend ID ${resendMessageId}:`, dbError);
+    return { status: 500, message: 'Internal Server Error during webhook processing' };
+  }
+}
+
+async function handleDeliveryEvent(eventType: string, deliveryStatus: DeliveryStatus, data: ResendWebhookData): Promise<WebhookHandlingResult> {
+  const resendMessageId = data.email_id;
+  if (!resendMessageId) {
+    console.warn(`Webhook '${eventType}' event missing email_id.`);
+    return { status: 400, message: 'Missing email_id in payload' };
+  }
+
+  console.log(`Processing '${eventType}' event for Resend ID: ${resendMessageId}`);
+
+  try {
+    const emailEntry = await prisma.emailQueue.findFirst({
+      where: { resendMessageId: resendMessageId },
+      select: { id: true, recipientEmail: true, deliveryStatus: true },
+    });
+
+    if (!emailEntry) {
+      console.warn(`No EmailQueue entry found for Resend ID: ${resendMessageId}`);
+      return { status: 200, message: 'Email entry not found, but acknowledged' };
+    }
+
+    if (emailEntry.deliveryStatus && DELIVERY_SEVERITY.indexOf(emailEntry.deliveryStatus) >= DELIVERY_SEVERITY.indexOf(deliveryStatus)) {
+      console.log(`Email ${emailEntry.id} already has delivery status ${emailEntry.deliveryStatus}. Ignoring ${deliveryStatus}.`);
+      return { status: 200, message: 'Event acknowledged, a later delivery status is already recorded.' };
+    }
+
+    const eventAt = data.created_at ? new Date(data.created_at) : new Date();
+    const detail = data.bounce?.message ?? null;
+
+    // Hard bounces and spam complaints stop future warnings to the address.
+    // Resend only reports permanent rejections as bounces, but a bounce explicitly marked transient is not suppressed.
+    const suppressionReason = deliveryStatus === DeliveryStatus.COMPLAINED
+      ? SuppressionReason.COMPLAINED
+      : deliveryStatus === DeliveryStatus.BOUNCED && data.bounce?.type !== 'Transient'
+        ? SuppressionReason.BOUNCED
+        : null;
+    const suppressedEmail = emailEntry.recipientEmail.trim().toLowerCase();
+
+    await prisma.$transaction([
+      prisma.emailQueue.update({
+        where: { id: emailEntry.id },
+        data: { deliveryStatus, deliveryEventAt: eventAt, deliveryDetail: detail },
+      }),
+      prisma.warningLog.updateMany({
+        where: { emailQueueId: emailEntry.id },
+        data: { deliveryStatus },
+      }),
+      ...(suppressionReason ? [prisma.emailSuppression.upsert({
+        where: { email: suppressedEmail },
+        update: {}, // Keep the first reason an address was suppressed
+        create: { email: suppressedEmail, reason: suppressionReason, detail, sourceEmailQueueId: emailEntry.id },
+      })] : []),
+    ]);
+
+    console.log(`Recorded ${deliveryStatus} for email ${emailEntry.id} (Resend ID: ${resendMessageId})${suppressionReason ? `; ${suppressedEmail} is now suppressed` : ''}.`);
+    return { status: 200, message: 'Webhook processed successfully' };
+
+  } catch (dbError) {
+    console.error(`Database error processing '${eventType}' event for Resend ID ${resendMessageId}:`, dbError);
+    return { status: 500, message: 'Internal Server Error during webhook processing' };
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { EmailStatus, RewarnMode } from '@prisma/client';
+import {
+  getRewarnWindowStart, buildRewarnBlockWhere, describeRewarnPolicy, DEFAULT_REWARN_POLICY, ALWAYS_BLOCKING_STATUSES, RewarnPolicySettings,
+} from '@/lib/rewarnPolicy';
+
+const NOW = new Date('2025-05-01T00:00:00Z');
+const TERM_START = new Date('2025-01-15T00:00:00Z');
+
+const policy = (overrides: Partial<RewarnPolicySettings>): RewarnPolicySettings => ({ ...DEFAULT_REWARN_POLICY, ...overrides });
+
+describe('getRewarnWindowStart', () => {
+  it('never expires blocking emails in FOREVER mode', () => {
+    expect(getRewarnWindowStart(policy({ mode: RewarnMode.FOREVER }), NOW)).toBeNull();
+  });
+
+  it('looks back cooldownDays in COOLDOWN mode', () => {
+    expect(getRewarnWindowStart(policy({ mode: RewarnMode.COOLDOWN, cooldownDays: 30 }), NOW)).toEqual(new Date('2025-04-01T00:00:00Z'));
+  });
+
+  it('starts at the term start in TERM mode, and never expires without one', () => {
+    expect(getRewarnWindowStart(policy({ mode: RewarnMode.TERM, termStartsAt: TERM_START }), NOW)).toEqual(TERM_START);
+    expect(getRewarnWindowStart(policy({ mode: RewarnMode.TERM, termStartsAt: null }), NOW)).toBeNull();
+  });
+});
+
+describe('buildRewarnBlockWhere', () => {
+  it('always blocks on pending emails and limits finished ones to the window', () => {
+    const where = buildRewarnBlockWhere(policy({ mode: RewarnMode.COOLDOWN, cooldownDays: 30, blockingStatuses: [EmailStatus.SENT] }), NOW);
+    expect(where).toEqual({
+      OR: [
+        { status: { in: ALWAYS_BLOCKING_STATUSES } },
+        { status: { in: [EmailStatus.SENT] }, createdAt: { gte: new Date('2025-04-01T00:00:00Z') } },
+      ],
+    });
+  });
+
+  it('has no date limit in FOREVER mode', () => {
+    const where = buildRewarnBlockWhere(policy({ mode: RewarnMode.FOREVER, blockingStatuses: [EmailStatus.SENT, EmailStatus.CANCELED] }), NOW);
+    expect(where.OR?.[1]).toEqual({ status: { in: [EmailStatus.SENT, EmailStatus.CANCELED] } });
+  });
+
+  it('blocks only on pending emails when no finished status is chosen', () => {
+    const where = buildRewarnBlockWhere(policy({ blockingStatuses: [EmailStatus.QUEUED] }), NOW);
+    expect(where).toEqual({ OR: [{ status: { in: ALWAYS_BLOCKING_STATUSES } }] });
+  });
+});
+
+describe('describeRewarnPolicy', () => {
+  it('describes each mode', () => {
+    expect(describeRewarnPolicy(DEFAULT_REWARN_POLICY)).toBe('never again (blocking: SENT, CANCELED)');
+    expect(describeRewarnPolicy(policy({ mode: RewarnMode.COOLDOWN, cooldownDays: 14, blockingStatuses: [] }))).toBe('at most once per 14 day(s) (blocking: pending only)');
+    expect(describeRewarnPolicy(policy({ mode: RewarnMode.TERM, termName: 'Spring 2025', termStartsAt: TERM_START })))
+      .toBe('once per term (Spring 2025 since 2025-01-15) (blocking: SENT, CANCELED)');
+    expect(describeRewarnPolicy(policy({ mode: RewarnMode.TERM }))).toBe('once per term (no term start set, never again) (blocking: SENT, CANCELED)');
+  });
+});
@@ -0,0 +1,102 @@
+import { prisma } from '@/lib/prisma';
+import { EmailStatus, Prisma, RewarnMode } from '@prisma/client';
+
+// Row id of the single policy record
+export const REWARN_POLICY_ID = 'default';
+
+// Pending emails always block, otherwise a member could be queued twice for the same warning
+export const ALWAYS_BLOCKING_STATUSES: EmailStatus[] = [EmailStatus.QUEUED, EmailStatus.APPROVED, EmailStatus.SENDING];
+
+// Finished statuses the panel can choose to count as an earlier warning
+export const CONFIGURABLE_BLOCKING_STATUSES: EmailStatus[] = [EmailStatus.SENT, EmailStatus.CANCELED, EmailStatus.FAILED];
+
+export interface RewarnPolicySettings {
+  mode: RewarnMode;
+  cooldownDays: number;
+  termName: string | null;
+  termStartsAt: Date | null;
+  blockingStatuses: EmailStatus[];
+}
+
+// Used until the panel saves a policy; matches the original "warn once, ever" behaviour
+export const DEFAULT_REWARN_POLICY: RewarnPolicySettings = {
+  mode: RewarnMode.FOREVER,
+  cooldownDays: 30,
+  termName: null,
+  termStartsAt: null,
+  blockingStatuses: [EmailStatus.SENT, EmailStatus.CANCELED],
+};
+
+/**
+ * Loads the saved re-warn policy, falling back to DEFAULT_REWARN_POLICY.
+ */
+export async function getRewarnPolicy(): Promise<RewarnPolicySettings> {
+  const policy = await prisma.rewarnPolicy.findUnique({ where: { id: REWARN_POLICY_ID } });
+  if (!policy) {
+    return DEFAULT_REWARN_POLICY;
+  }
+  return {
+    mode: policy.mode,
+    cooldownDays: policy.cooldownDays,
+    termName: policy.termName,
+    termStartsAt: policy.termStartsAt,
+    blockingStatuses: policy.blockingStatuses,
+  };
+}
+
+/**
+ * Returns the earliest creation time an earlier email must have to still block a new warning,
+ * or null if blocking emails never expire. A TERM policy without a start date blocks forever.
+ */
+export function getRewarnWindowStart(policy: RewarnPolicySettings, now: Date = new Date()): Date | null {
+  switch (policy.mode) {
+    case RewarnMode.COOLDOWN:
+      return new Date(now.getTime() - policy.cooldownDays * 24 * 60 * 60 * 1000);
+    case RewarnMode.TERM:
+      return policy.termStartsAt;
+    case RewarnMode.FOREVER:
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds the EmailQueue filter matching emails that stop a member from being warned again.
+ * Combine it with the recipient, e.g. `{ recipientEmail, ...buildRewarnBlockWhere(policy) }`.
+ */
+export function buildRewarnBlockWhere(policy: RewarnPolicySettings, now: Date = new Date()): Prisma.EmailQueueWhereInput {
+  const windowStart = getRewarnWindowStart(policy, now);
+  const finishedStatuses = policy.blockingStatuses.filter(status => !ALWAYS_BLOCKING_STATUSES.includes(status));
+
+  const conditions: Prisma.EmailQueueWhereInput[] = [{ status: { in: ALWAYS_BLOCKING_STATUSES } }];
+  if (finishedStatuses.length > 0) {
+    conditions.push({
+      status: { in: finishedStatuses },
+      ...(windowStart ? { createdAt: { gte: windowStart } } : {}),
+    });
+  }
+  return { OR: conditions };
+}
+
+/**
+ * Short description for logs and the panel UI (e.g. "once per 30 days (blocking: SENT, CANCELED)").
+ */
+export function describeRewarnPolicy(policy: RewarnPolicySettings): string {
+  let windowText: string;
+  switch (policy.mode) {
+    case RewarnMode.COOLDOWN:
+      windowText = `at most once per ${policy.cooldownDays} day(s)`;
+      break;
+    case RewarnMode.TERM:
+      windowText = policy.termStartsAt
+        ? `once per term (${policy.termName || 'current term'} since ${policy.termStartsAt.toISOString().slice(0, 10)})`
+        : 'once per term (no term start set, never again)';
+      break;
+    case RewarnMode.FOREVER:
+    default:
+      windowText = 'never again';
+      break;
+  }
+  const blocking = policy.blockingStatuses.length > 0 ? policy.blockingStatuses.join(', ') : 'pending only';
+  return `${windowText} (blocking: ${blocking})`;
+}
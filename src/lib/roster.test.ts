@@ -0,0 +1,94 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  parseRoster, parseMemberRows, getRosterCell, getRangeStartRow, getHeaderRowRange, isHeaderRow, getColumnLetter, parseTags, RosterColumnError,
+} from '@/lib/roster';
+
+afterEach(() => {
+  delete process.env.ROSTER_EMAIL_HEADERS;
+});
+
+describe('parseRoster', () => {
+  it('locates columns by header name in any order, ignoring case and spacing', () => {
+    const roster = parseRoster([
+      ['Role', '  E-Mail  Address ', 'Full Name', 'Activity Score'],
+      ['Executive', 'ann@example.com', 'Ann', 4],
+    ], 1, ['email', 'role', 'activityCount']);
+    expect(roster.columns).toEqual({ role: 0, email: 1, name: 2, activityCount: 3 });
+    expect(getRosterCell(roster, roster.rows[0], 'email')).toBe('ann@example.com');
+    expect(getRosterCell(roster, roster.rows[0], 'tags')).toBeUndefined();
+  });
+
+  it('numbers data rows from the header row', () => {
+    const roster = parseRoster([['Email'], ['a@example.com'], ['b@example.com']], 3, ['email']);
+    expect(roster.rows.map(row => row.rowIndex)).toEqual([4, 5]);
+  });
+
+  it('throws RosterColumnError naming every missing required column', () => {
+    let error: unknown;
+    try {
+      parseRoster([['Name', 'Email']], 1, ['email', 'role', 'activityCount']);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(RosterColumnError);
+    expect((error as RosterColumnError).missing).toEqual(['role', 'activityCount']);
+  });
+
+  it('prefers configured header names over the defaults', () => {
+    process.env.ROSTER_EMAIL_HEADERS = 'BRACU Email';
+    const roster = parseRoster([['Email', 'BRACU Email']], 1, ['email']);
+    expect(roster.columns.email).toBe(1);
+  });
+
+  it('returns an empty roster for an empty range', () => {
+    expect(parseRoster([], 1, ['email'])).toEqual({ columns: {}, rows: [] });
+  });
+});
+
+describe('header rows and ranges', () => {
+  it('recognises a header row by its email column', () => {
+    expect(isHeaderRow(['Name', 'Email', 'Role'])).toBe(true);
+    expect(isHeaderRow(['Ann', 'ann@example.com', 'Executive'])).toBe(false);
+  });
+
+  it('finds the start row of a range', () => {
+    expect(getRangeStartRow('Sheet1!A1:F')).toBe(1);
+    expect(getRangeStartRow('Sheet1!A:F')).toBe(1);
+    expect(getRangeStartRow('B3:D')).toBe(3);
+  });
+
+  it('builds the header range above a data-only range', () => {
+    expect(getHeaderRowRange('Sheet1!A2:F')).toBe('Sheet1!A1:F1');
+    expect(getHeaderRowRange("'Club Roster'!B5:G200")).toBe("'Club Roster'!B4:G4");
+    expect(getHeaderRowRange('A2')).toBe('A1');
+    expect(getHeaderRowRange('Sheet1!A1:F')).toBeNull();
+    expect(getHeaderRowRange('Sheet1!A:F')).toBeNull();
+  });
+
+  it('converts column indexes to letters', () => {
+    expect([0, 25, 26, 27, 701, 702].map(getColumnLetter)).toEqual(['A', 'Z', 'AA', 'AB', 'ZZ', 'AAA']);
+  });
+});
+
+describe('parseMemberRows', () => {
+  it('validates rows and reports the unusable ones', () => {
+    const roster = parseRoster([
+      ['Name', 'Email', 'Activity Count', 'Role', 'Tags'],
+      ['Ann', 'ann@example.com', '4', 'Executive', 'Introvert; Mentor'],
+      ['Bob', '', 2, 'Executive', ''],
+      ['Cat', 'cat@example.com', 'n/a', 'Executive', ''],
+    ], 1, ['email', 'activityCount']);
+    const { members, errors } = parseMemberRows(roster);
+    expect(members).toEqual([
+      { name: 'Ann', email: 'ann@example.com', activityCount: 4, role: 'Executive', tags: ['Introvert', 'Mentor'], rowIndex: 2 },
+    ]);
+    expect(errors.map(error => [error.rowIndex, error.name])).toEqual([[3, 'Bob'], [4, 'Cat']]);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and semicolons and drops blanks', () => {
+    expect(parseTags(' Introvert, Mentor;;Leader ')).toEqual(['Introvert', 'Mentor', 'Leader']);
+    expect(parseTags(null)).toEqual([]);
+  });
+});
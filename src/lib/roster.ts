@@ -0,0 +1,309 @@
+// Shared parsing for the member roster (the member data sheet, CSV export or database table).
+// Columns are located by their header names instead of fixed positions, so inserting
+// or reordering columns in the sheet doesn't silently break role sync or flagging.
+
+export type SheetCell = string | number | boolean | null;
+
+// Logical roster fields the app understands
+export type RosterField = 'name' | 'email' | 'activityCount' | 'role' | 'tags';
+
+export interface ClubMemberData {
+  name: string;
+  email: string;
+  activityCount: number;
+  role?: string; // Role is now mandatory based on new structure, but keep optional for safety
+  tags: string[]; // Personality tags from the optional tags column (used for template selection)
+  rowIndex: number; // Original row index for reference/debugging
+}
+
+// Define structure for sheet errors
+export interface SheetError {
+    rowIndex: number;
+    reason: string;
+    name?: string | null; // Member name from the sheet's name column, if readable
+    rowData: SheetCell[]; // Store the raw row data
+}
+
+export interface RosterRow {
+  rowIndex: number; // 1-based sheet row number
+  cells: SheetCell[];
+}
+
+export interface Roster {
+  columns: Partial<Record<RosterField, number>>; // Field -> 0-based column index
+  rows: RosterRow[]; // Data rows (header row excluded)
+}
+
+/**
+ * Base class for roster problems that should be shown to the caller as-is
+ * (misconfiguration, unreadable source, bad header row).
+ */
+export class RosterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RosterError';
+  }
+}
+
+/**
+ * Thrown when the roster source is misconfigured or can't be read.
+ */
+export class RosterSourceError extends RosterError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RosterSourceError';
+  }
+}
+
+/**
+ * Thrown when the header row is missing one or more columns a caller requires.
+ */
+export class RosterColumnError extends RosterError {
+  missing: RosterField[];
+
+  constructor(missing: RosterField[]) {
+    const details = missing.map(field => `${FIELD_LABELS[field]} (accepted headers: ${getHeaderAliases(field).join(', ')})`);
+    super(`Member sheet is missing required column(s): ${details.join('; ')}.`);
+    this.name = 'RosterColumnError';
+    this.missing = missing;
+  }
+}
+
+const FIELD_LABELS: Record<RosterField, string> = {
+  name: 'Name',
+  email: 'Email',
+  activityCount: 'Activity Count',
+  role: 'Role',
+  tags: 'Tags',
+};
+
+// Header names recognised for each field (compared after normalization)
+const DEFAULT_HEADER_ALIASES: Record<RosterField, string[]> = {
+  name: ['name', 'full name', 'member name'],
+  email: ['email', 'email address', 'e-mail', 'e-mail address', 'mail'],
+  activityCount: ['activity count', 'activity', 'activities', 'activity score'],
+  role: ['role', 'club role', 'position'],
+  tags: ['tags', 'tag', 'personality tags', 'personality tag', 'personality'],
+};
+
+// Extra comma-separated header names can be configured per field, e.g. ROSTER_EMAIL_HEADERS="BRACU Email"
+const HEADER_ALIAS_ENV_VARS: Record<RosterField, string> = {
+  name: 'ROSTER_NAME_HEADERS',
+  email: 'ROSTER_EMAIL_HEADERS',
+  activityCount: 'ROSTER_ACTIVITY_HEADERS',
+  role: 'ROSTER_ROLE_HEADERS',
+  tags: 'ROSTER_TAGS_HEADERS',
+};
+
+function normalizeHeader(value: SheetCell | undefined): string {
+  return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function getHeaderAliases(field: RosterField): string[] {
+  const configured = (process.env[HEADER_ALIAS_ENV_VARS[field]] || '')
+    .split(',')
+    .map(alias => normalizeHeader(alias))
+    .filter(Boolean);
+  return [...configured, ...DEFAULT_HEADER_ALIASES[field]];
+}
+
+/**
+ * Converts a 0-based column index to its sheet letter (0 -> A, 27 -> AB).
+ */
+export function getColumnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+/**
+ * Returns the sheet row number the range starts at ('Sheet1!A1:F' -> 1, 'Sheet1!A:F' -> 1, 'B3:D' -> 3).
+ */
+export function getRangeStartRow(range: string): number {
+  const cellRef = range.includes('!') ? range.slice(range.lastIndexOf('!') + 1) : range;
+  const match = cellRef.match(/^[A-Za-z]*(\d+)/);
+  return match ? parseInt(match[1], 10) : 1;
+}
+
+/**
+ * Returns the range covering the row just above a range, over the same columns
+ * ('Sheet1!A2:F' -> 'Sheet1!A1:F1'), or null when the range starts at row 1.
+ */
+export function getHeaderRowRange(range: string): string | null {
+  const sheetPrefix = range.includes('!') ? range.slice(0, range.lastIndexOf('!') + 1) : '';
+  const cellRef = range.slice(sheetPrefix.length);
+  const match = cellRef.match(/^([A-Za-z]*)(\d+)(?::([A-Za-z]*)\d*)?$/);
+  if (!match) return null;
+  const headerRow = parseInt(match[2], 10) - 1;
+  if (headerRow < 1) return null;
+  const [, startColumn, , endColumn] = match;
+  if (!cellRef.includes(':')) return `${sheetPrefix}${startColumn}${headerRow}`;
+  if (startColumn && endColumn) return `${sheetPrefix}${startColumn}${headerRow}:${endColumn}${headerRow}`;
+  return `${sheetPrefix}${startColumn}${headerRow}:${headerRow}`;
+}
+
+/**
+ * Whether a row looks like the header row: it names the email column, which every caller needs.
+ */
+export function isHeaderRow(row: SheetCell[]): boolean {
+  const aliases = getHeaderAliases('email');
+  return row.some(cell => aliases.includes(normalizeHeader(cell)));
+}
+
+/**
+ * Parses raw sheet values into a roster. The first row of `values` must be the header row.
+ *
+ * @param values - Raw values as returned by the Sheets API, header row first.
+ * @param firstRowNumber - Sheet row number of the header row (used for error reporting).
+ * @param required - Fields the caller cannot work without. Throws RosterColumnError if any is missing.
+ */
+export function parseRoster(values: SheetCell[][], firstRowNumber: number, required: RosterField[]): Roster {
+  // An empty range has no header to validate and no rows to misread
+  if (values.length === 0) {
+    return { columns: {}, rows: [] };
+  }
+
+  const [headerRow, ...dataRows] = values;
+  const normalizedHeaders = headerRow.map(normalizeHeader);
+
+  const columns: Partial<Record<RosterField, number>> = {};
+  (Object.keys(DEFAULT_HEADER_ALIASES) as RosterField[]).forEach(field => {
+    const aliases = getHeaderAliases(field);
+    // Prefer the earliest alias in the list, so configured names win over defaults
+    for (const alias of aliases) {
+      const index = normalizedHeaders.indexOf(alias);
+      if (index !== -1) {
+        columns[field] = index;
+        break;
+      }
+    }
+  });
+
+  const missing = required.filter(field => columns[field] === undefined);
+  if (missing.length > 0) {
+    console.error(`Member sheet header row [${headerRow.join(', ')}] is missing required columns: ${missing.join(', ')}`);
+    throw new RosterColumnError(missing);
+  }
+
+  return {
+    columns,
+    rows: dataRows.map((cells, index) => ({ rowIndex: firstRowNumber + 1 + index, cells })),
+  };
+}
+
+/**
+ * Reads a field's cell from a roster row. Returns undefined if the column isn't present.
+ */
+export function getRosterCell(roster: Roster, row: RosterRow, field: RosterField): SheetCell | undefined {
+  const index = roster.columns[field];
+  return index === undefined ? undefined : row.cells[index];
+}
+
+/**
+ * Describes where a field lives in the sheet, for error messages (e.g. "Column B").
+ */
+export function describeRosterColumn(roster: Roster, field: RosterField): string {
+  const index = roster.columns[field];
+  return index === undefined ? `${FIELD_LABELS[field]} column` : `Column ${getColumnLetter(index)}`;
+}
+
+/**
+ * Lenient activity count parsing: numbers pass through, numeric strings are parsed.
+ * Returns null for anything else.
+ */
+export function parseActivityCount(value: SheetCell | undefined): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Splits a tags cell into its tags. Tags are separated by commas or semicolons ("Introvert, Mentor").
+ */
+export function parseTags(value: SheetCell | undefined): string[] {
+  if (typeof value !== 'string') return [];
+  return value.split(/[,;]/).map(tag => tag.trim()).filter(Boolean);
+}
+
+/**
+ * Validates every roster row into ClubMemberData. Rows that can't be used are
+ * returned as SheetErrors so the panel can fix them in the sheet.
+ */
+export function parseMemberRows(roster: Roster): { members: ClubMemberData[]; errors: SheetError[] } {
+  const members: ClubMemberData[] = [];
+  const errors: SheetError[] = [];
+
+  roster.rows.forEach((rosterRow) => {
+    const { rowIndex, cells: row } = rosterRow;
+    const emailValue = getRosterCell(roster, rosterRow, 'email');
+    const activityCountValue = getRosterCell(roster, rosterRow, 'activityCount');
+    const nameValue = getRosterCell(roster, rosterRow, 'name');
+    const roleValue = getRosterCell(roster, rosterRow, 'role');
+    const tagsValue = getRosterCell(roster, rosterRow, 'tags');
+    const errorName = typeof nameValue === 'string' ? nameValue : null;
+
+    // Validate email
+    if (typeof emailValue !== 'string' || !emailValue) {
+      const reason = `Invalid or missing email (${describeRosterColumn(roster, 'email')}).`;
+      console.warn(`Skipping row ${rowIndex}: ${reason}`);
+      errors.push({ rowIndex, reason, name: errorName, rowData: row });
+      return; // Skip this row
+    }
+    const email = emailValue;
+
+    // Validate activity count
+    if (activityCountValue === undefined || activityCountValue === null) {
+       const reason = `Missing activity count (${describeRosterColumn(roster, 'activityCount')}).`;
+       console.warn(`Skipping row ${rowIndex}: ${reason}`);
+       errors.push({ rowIndex, reason, name: errorName, rowData: row });
+       return; // Skip this row
+    }
+    let countStr: string;
+    if (typeof activityCountValue === 'number') {
+      countStr = String(activityCountValue);
+    } else if (typeof activityCountValue === 'string') {
+      countStr = activityCountValue;
+    } else {
+        const reason = `Invalid activity count type '${typeof activityCountValue}' value '${activityCountValue}' (${describeRosterColumn(roster, 'activityCount')}).`;
+        console.warn(`Skipping row ${rowIndex}: ${reason}`);
+        errors.push({ rowIndex, reason, name: errorName, rowData: row });
+        return; // Skip this row
+    }
+    const activityCount = parseInt(countStr, 10);
+    if (isNaN(activityCount)) {
+      const reason = `Invalid activity count value (parsed from '${countStr}') (${describeRosterColumn(roster, 'activityCount')}).`;
+      console.warn(`Skipping row ${rowIndex}: ${reason}`);
+      errors.push({ rowIndex, reason, name: errorName, rowData: row });
+      return; // Skip this row
+    }
+
+    // Process name
+    const name = typeof nameValue === 'string' ? nameValue : '';
+
+    // Process role
+    const role = typeof roleValue === 'string' ? roleValue : undefined;
+    if (!role) {
+       // This is a warning, not an error preventing processing
+       console.warn(`Row ${rowIndex}: Missing role value (${describeRosterColumn(roster, 'role')}) (used for template selection).`);
+    }
+
+    members.push({
+      name: name,
+      email: email,
+      activityCount: activityCount,
+      role: role, // Keep original role casing for display/template lookup if needed
+      tags: parseTags(tagsValue),
+      rowIndex: rowIndex
+    });
+  });
+
+  return { members, errors };
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from '@/lib/rosterProviders';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('Name,Email\nAnn,ann@example.com\n')).toEqual([['Name', 'Email'], ['Ann', 'ann@example.com']]);
+  });
+
+  it('handles CRLF and lone CR line endings', () => {
+    expect(parseCsv('a,b\r\nc,d\re,f')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('"Doe, Jane","Line 1\r\nLine 2","She said ""hi"""\n')).toEqual([['Doe, Jane', 'Line 1\r\nLine 2', 'She said "hi"']]);
+  });
+
+  it('keeps empty fields, including a trailing one', () => {
+    expect(parseCsv('a,,c,\n')).toEqual([['a', '', 'c', '']]);
+  });
+
+  it('reads a last row without a trailing newline', () => {
+    expect(parseCsv('a,b\nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('drops blank lines and a UTF-8 BOM', () => {
+    expect(parseCsv('\uFEFFName\n\n , \nAnn\n\n')).toEqual([['Name'], ['Ann']]);
+  });
+});
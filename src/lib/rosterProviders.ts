@@ -0,0 +1,167 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { prisma } from '@/lib/prisma';
+import { getSheetData } from '@/lib/googleSheets';
+import { parseRoster, getRangeStartRow, getHeaderRowRange, isHeaderRow, Roster, RosterField, RosterSourceError, SheetCell } from '@/lib/roster';
+
+// Raw roster values with the header row first, plus the row number of that header
+interface RosterValues {
+  values: SheetCell[][];
+  firstRowNumber: number;
+}
+
+/**
+ * A source of member roster rows. Every provider returns the same header-first
+ * table so the header-based parsing in roster.ts works the same for all of them.
+ */
+export interface RosterProvider {
+  name: string; // Human-readable source name for messages
+  fetchValues(): Promise<RosterValues>;
+}
+
+// --- Google Sheets Provider ---
+// Reads GOOGLE_SHEET_MEMBER_DATA_RANGE, starting either at the header row ('Sheet1!A1:F') or,
+// as older deployments configured it, at the first data row right below it ('Sheet1!A2:F')
+const googleSheetsProvider: RosterProvider = {
+  name: 'Google Sheets',
+  async fetchValues() {
+    const range = process.env.GOOGLE_SHEET_MEMBER_DATA_RANGE;
+    if (!range) {
+      console.error("GOOGLE_SHEET_MEMBER_DATA_RANGE environment variable is not set.");
+      throw new RosterSourceError("Member data sheet range is not configured.");
+    }
+
+    const values = await getSheetData(range);
+    if (values === null) {
+      throw new RosterSourceError("Failed to fetch data from Google Sheet.");
+    }
+
+    const firstRowNumber = getRangeStartRow(range);
+    const headerRange = getHeaderRowRange(range);
+    if (headerRange && (values.length === 0 || !isHeaderRow(values[0]))) {
+      // The range starts below the header, so read the header row above it separately
+      const headerValues = await getSheetData(headerRange);
+      if (headerValues === null) {
+        throw new RosterSourceError("Failed to fetch the header row from Google Sheet.");
+      }
+      return { values: [headerValues[0] ?? [], ...values], firstRowNumber: firstRowNumber - 1 };
+    }
+    return { values, firstRowNumber };
+  },
+};
+
+// --- CSV File Provider ---
+// Reads ROSTER_CSV_PATH (absolute, or relative to the project root), header row first
+
+/**
+ * Minimal RFC 4180 CSV parser: quoted fields, escaped quotes ("") and CRLF line endings.
+ */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, ''); // Strip UTF-8 BOM from spreadsheet exports
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (e.g. a trailing newline at the end of the export)
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+const csvFileProvider: RosterProvider = {
+  name: 'CSV file',
+  async fetchValues() {
+    const csvPath = process.env.ROSTER_CSV_PATH;
+    if (!csvPath) {
+      console.error("ROSTER_CSV_PATH environment variable is not set.");
+      throw new RosterSourceError("Roster CSV path is not configured.");
+    }
+
+    const resolvedPath = path.isAbsolute(csvPath) ? csvPath : path.join(process.cwd(), csvPath);
+    let content: string;
+    try {
+      content = await fs.readFile(resolvedPath, 'utf-8');
+    } catch (error) {
+      console.error(`Error reading roster CSV file at ${resolvedPath}:`, error);
+      throw new RosterSourceError("Failed to read the roster CSV file.");
+    }
+    return { values: parseCsv(content), firstRowNumber: 1 };
+  },
+};
+
+// --- Database Provider ---
+// Reads the roster_members table (e.g. filled by an import script or Prisma Studio)
+const databaseProvider: RosterProvider = {
+  name: 'database',
+  async fetchValues() {
+    try {
+      const members = await prisma.rosterMember.findMany({ orderBy: { email: 'asc' } });
+      const header: SheetCell[] = ['Name', 'Email', 'Activity Count', 'Role', 'Tags'];
+      const rows: SheetCell[][] = members.map(m => [m.name, m.email, m.activityCount, m.role, m.tags]);
+      return { values: [header, ...rows], firstRowNumber: 1 };
+    } catch (error) {
+      console.error("Error fetching roster members from database:", error);
+      throw new RosterSourceError("Failed to fetch roster members from the database.");
+    }
+  },
+};
+
+const ROSTER_PROVIDERS: Record<string, RosterProvider> = {
+  'google-sheets': googleSheetsProvider,
+  'csv': csvFileProvider,
+  'database': databaseProvider,
+};
+
+/**
+ * Returns the roster provider selected by ROSTER_PROVIDER (defaults to 'google-sheets').
+ */
+export function getRosterProvider(): RosterProvider {
+  const providerKey = (process.env.ROSTER_PROVIDER || 'google-sheets').trim().toLowerCase();
+  const provider = ROSTER_PROVIDERS[providerKey];
+  if (!provider) {
+    throw new RosterSourceError(`Unknown ROSTER_PROVIDER '${providerKey}'. Expected one of: ${Object.keys(ROSTER_PROVIDERS).join(', ')}.`);
+  }
+  return provider;
+}
+
+/**
+ * Fetches the member roster from the configured provider and maps its columns.
+ * Throws a RosterError subclass when the source is misconfigured or unreadable,
+ * or when a required column is missing from the header row.
+ */
+export async function loadRoster(required: RosterField[]): Promise<Roster> {
+  const provider = getRosterProvider();
+  const { values, firstRowNumber } = await provider.fetchValues();
+  console.log(`Fetched ${values.length} rows (including header) from roster source: ${provider.name}.`);
+  return parseRoster(values, firstRowNumber, required);
+}
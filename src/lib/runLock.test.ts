@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { acquireRunLock, releaseRunLock } from '@/lib/runLock';
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: {
+    runLock: { updateMany: vi.fn(), create: vi.fn(), findUnique: vi.fn(), deleteMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+
+const NOW = new Date('2025-05-01T12:00:00Z');
+const ACTOR = { type: 'user', userId: 'user_1', email: 'jane@example.com' } as const;
+
+const uniqueViolation = () => new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`name`)', { code: 'P2002', clientVersion: 'test' });
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('acquireRunLock', () => {
+  it('creates the lock with a fifteen minute lease when nobody holds it', async () => {
+    prismaMock.runLock.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.runLock.create.mockResolvedValue({});
+
+    const lock = await acquireRunLock('email-queue', ACTOR);
+
+    expect(lock.acquired).toBe(true);
+    expect(prismaMock.runLock.create).toHaveBeenCalledWith({
+      data: {
+        name: 'email-queue',
+        token: lock.acquired ? lock.token : undefined,
+        holder: 'jane@example.com',
+        acquiredAt: NOW,
+        expiresAt: new Date('2025-05-01T12:15:00Z'),
+      },
+    });
+  });
+
+  it('reports who holds a busy lock and since when', async () => {
+    const startedAt = new Date('2025-05-01T11:55:00Z');
+    prismaMock.runLock.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.runLock.create.mockRejectedValue(uniqueViolation());
+    prismaMock.runLock.findUnique.mockResolvedValue({ name: 'activity-check', holder: 'service:vercel-cron', acquiredAt: startedAt });
+
+    expect(await acquireRunLock('activity-check', ACTOR)).toEqual({
+      acquired: false,
+      holder: 'service:vercel-cron',
+      acquiredAt: startedAt,
+      message: 'An activity check is already in progress (started by service:vercel-cron at 2025-05-01T11:55:00.000Z).',
+    });
+  });
+
+  it('takes over an expired lock without creating a new one', async () => {
+    prismaMock.runLock.updateMany.mockResolvedValue({ count: 1 });
+
+    const lock = await acquireRunLock('email-queue', ACTOR);
+
+    expect(lock.acquired).toBe(true);
+    expect(prismaMock.runLock.updateMany).toHaveBeenCalledWith({
+      where: { name: 'email-queue', expiresAt: { lt: NOW } },
+      data: expect.objectContaining({ holder: 'jane@example.com', acquiredAt: NOW }),
+    });
+    expect(prismaMock.runLock.create).not.toHaveBeenCalled();
+  });
+
+  it('rethrows errors other than a held lock', async () => {
+    prismaMock.runLock.updateMany.mockResolvedValue({ count: 0 });
+    prismaMock.runLock.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(acquireRunLock('email-queue', ACTOR)).rejects.toThrow('connection lost');
+  });
+});
+
+describe('releaseRunLock', () => {
+  it('deletes only the lock with its own token', async () => {
+    prismaMock.runLock.deleteMany.mockResolvedValue({ count: 1 });
+    await releaseRunLock('email-queue', 'token_1');
+    expect(prismaMock.runLock.deleteMany).toHaveBeenCalledWith({ where: { name: 'email-queue', token: 'token_1' } });
+  });
+
+  it('logs a failed release instead of throwing', async () => {
+    prismaMock.runLock.deleteMany.mockRejectedValue(new Error('connection lost'));
+    await expect(releaseRunLock('email-queue', 'token_1')).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { Actor, getActorLabel } from '@/lib/actor';
+
+// Jobs that must never run twice at the same time
+export type RunLockName = 'activity-check' | 'email-queue';
+
+const RUN_LOCK_LABELS: Record<RunLockName, string> = {
+  'activity-check': 'An activity check',
+  'email-queue': 'Email queue processing',
+};
+
+// Longer than any run can take (serverless functions are killed well before this),
+// so a lock is only taken over when its holder has died without releasing it
+const RUN_LOCK_LEASE_MS = 15 * 60 * 1000;
+
+export type RunLockResult =
+  | { acquired: true; token: string }
+  | { acquired: false; holder: string; acquiredAt: Date; message: string };
+
+/**
+ * Tries to take the named lock for `actor`. Never waits: if another run holds an
+ * unexpired lock, returns who holds it and a message for the caller instead.
+ */
+export async function acquireRunLock(name: RunLockName, actor: Actor): Promise<RunLockResult> {
+  const now = new Date();
+  const data = {
+    token: randomUUID(),
+    holder: getActorLabel(actor),
+    acquiredAt: now,
+    expiresAt: new Date(now.getTime() + RUN_LOCK_LEASE_MS),
+  };
+
+  // Take over an abandoned lock. The expiry condition is re-checked under the row lock,
+  // so only one of several concurrent callers can win it.
+  const takeover = await prisma.runLock.updateMany({
+    where: { name, expiresAt: { lt: now } },
+    data,
+  });
+  if (takeover.count === 1) {
+    console.log(`Run lock '${name}' taken over from an expired holder by ${data.holder}.`);
+    return { acquired: true, token: data.token };
+  }
+
+  try {
+    await prisma.runLock.create({ data: { name, ...data } });
+    return { acquired: true, token: data.token };
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      const current = await prisma.runLock.findUnique({ where: { name } });
+      const holder = current?.holder ?? 'unknown';
+      const acquiredAt = current?.acquiredAt ?? now;
+      const message = `${RUN_LOCK_LABELS[name]} is already in progress (started by ${holder} at ${acquiredAt.toISOString()}).`;
+      console.warn(`Run lock '${name}' is held. ${message}`);
+      return { acquired: false, holder, acquiredAt, message };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Releases a lock taken with acquireRunLock. Does nothing if the lock has since been
+ * taken over by another run.
+ */
+export async function releaseRunLock(name: RunLockName, token: string): Promise<void> {
+  try {
+    await prisma.runLock.deleteMany({ where: { name, token } });
+  } catch (error) {
+    // The lease expires on its own, so a failed release only delays the next run
+    console.error(`Failed to release run lock '${name}':`, error);
+  }
+}
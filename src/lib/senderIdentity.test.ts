@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SenderIdentity, SenderScope } from '@prisma/client';
+import { loadSenderIdentities, resolveSender, formatFromHeader, normalizeScopeValue } from '@/lib/senderIdentity';
+
+const { prismaMock } = vi.hoisted(() => ({
+  prismaMock: { senderIdentity: { findMany: vi.fn() } },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma: prismaMock }));
+
+const identity = (scope: SenderScope, scopeValue: string, fromName: string): SenderIdentity => ({
+  id: `${scope}-${scopeValue}`,
+  scope,
+  scopeValue: normalizeScopeValue(scope, scopeValue),
+  fromName,
+  fromAddress: `${fromName.toLowerCase().replace(/\s+/g, '.')}@club.org`,
+  replyTo: null,
+  updatedAt: new Date(0),
+});
+
+const load = (identities: SenderIdentity[]) => {
+  prismaMock.senderIdentity.findMany.mockResolvedValueOnce(identities);
+  return loadSenderIdentities();
+};
+
+describe('resolveSender', () => {
+  const ALL = [
+    identity(SenderScope.DEFAULT, '', 'Club Panel'),
+    identity(SenderScope.ROLE, 'Executive', 'Executive Desk'),
+    identity(SenderScope.TEMPLATE, 'low_activity_final', 'Club President'),
+  ];
+
+  it("prefers the template's identity over the role's and the default", async () => {
+    const identities = await load(ALL);
+    expect(resolveSender(identities, 'low_activity_final', 'Executive')?.fromName).toBe('Club President');
+  });
+
+  it("falls back to the role's identity, matching the role case-insensitively", async () => {
+    const identities = await load(ALL);
+    expect(resolveSender(identities, 'low_activity_general', ' EXECUTIVE ')?.fromName).toBe('Executive Desk');
+    expect(resolveSender(identities, null, 'executive')?.fromName).toBe('Executive Desk');
+  });
+
+  it('falls back to the default identity', async () => {
+    const identities = await load(ALL);
+    expect(resolveSender(identities, 'low_activity_general', 'Member')).toEqual({ fromName: 'Club Panel', fromAddress: 'club.panel@club.org', replyTo: null });
+    expect(resolveSender(identities, null, undefined)?.fromName).toBe('Club Panel');
+  });
+
+  it('returns null when no identity applies', async () => {
+    const identities = await load([identity(SenderScope.ROLE, 'Executive', 'Executive Desk')]);
+    expect(resolveSender(identities, 'low_activity_general', 'Member')).toBeNull();
+  });
+});
+
+describe('formatFromHeader', () => {
+  it('uses the bare address without a name', () => {
+    expect(formatFromHeader(null, 'panel@club.org')).toBe('panel@club.org');
+    expect(formatFromHeader('', 'panel@club.org')).toBe('panel@club.org');
+  });
+
+  it('quotes the display name so commas stay inside it', () => {
+    expect(formatFromHeader('Panel, Robotics Club', 'panel@club.org')).toBe('"Panel, Robotics Club" <panel@club.org>');
+  });
+
+  it('escapes quotes and backslashes in the display name', () => {
+    expect(formatFromHeader('The "Pulse" Team', 'panel@club.org')).toBe('"The \\"Pulse\\" Team" <panel@club.org>');
+    expect(formatFromHeader('Back\\slash', 'panel@club.org')).toBe('"Back\\\\slash" <panel@club.org>');
+  });
+});
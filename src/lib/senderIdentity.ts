@@ -0,0 +1,51 @@
+import { prisma } from '@/lib/prisma';
+import { SenderIdentity, SenderScope } from '@prisma/client';
+
+// The parts of a sender identity stored on each EmailQueue row
+export interface ResolvedSender {
+  fromName: string;
+  fromAddress: string;
+  replyTo: string | null;
+}
+
+// Identities loaded once per run, keyed by scope and value
+export type SenderIdentityMap = Map<string, SenderIdentity>;
+
+function getIdentityKey(scope: SenderScope, scopeValue: string): string {
+  return `${scope}:${scopeValue}`;
+}
+
+/**
+ * Normalizes the scope value the same way for saving and lookups
+ * (roles are matched case-insensitively, like role thresholds).
+ */
+export function normalizeScopeValue(scope: SenderScope, value: string | null | undefined): string {
+  if (scope === SenderScope.DEFAULT) return '';
+  const trimmed = (value || '').trim();
+  return scope === SenderScope.ROLE ? trimmed.toLowerCase() : trimmed;
+}
+
+export async function loadSenderIdentities(): Promise<SenderIdentityMap> {
+  const identities = await prisma.senderIdentity.findMany();
+  return new Map(identities.map(identity => [getIdentityKey(identity.scope, identity.scopeValue), identity]));
+}
+
+/**
+ * Picks the identity for an email: the template's identity, then the recipient role's,
+ * then the default. Returns null when none is configured (the transport's MAIL_FROM applies).
+ */
+export function resolveSender(identities: SenderIdentityMap, template: string | null, role: string | null | undefined): ResolvedSender | null {
+  const identity =
+    (template ? identities.get(getIdentityKey(SenderScope.TEMPLATE, normalizeScopeValue(SenderScope.TEMPLATE, template))) : undefined)
+    ?? (role ? identities.get(getIdentityKey(SenderScope.ROLE, normalizeScopeValue(SenderScope.ROLE, role))) : undefined)
+    ?? identities.get(getIdentityKey(SenderScope.DEFAULT, ''));
+  return identity ? { fromName: identity.fromName, fromAddress: identity.fromAddress, replyTo: identity.replyTo } : null;
+}
+
+/**
+ * Formats the From header, quoting the display name ("Club Panel" <panel@club.org>).
+ */
+export function formatFromHeader(fromName: string | null, fromAddress: string): string {
+  if (!fromName) return fromAddress;
+  return `"${fromName.replace(/["\\]/g, '\\$&')}" <${fromAddress}>`;
+}
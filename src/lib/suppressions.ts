@@ -0,0 +1,10 @@
+import { prisma } from '@/lib/prisma';
+import { EmailSuppression } from '@prisma/client';
+
+/**
+ * Loads the suppression list keyed by lowercase email.
+ */
+export async function getSuppressedEmails(): Promise<Map<string, EmailSuppression>> {
+  const suppressions = await prisma.emailSuppression.findMany();
+  return new Map(suppressions.map(suppression => [suppression.email, suppression]));
+}
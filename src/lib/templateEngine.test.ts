@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { parseTemplate, renderTemplate, escapeHtml } from '@/lib/templateEngine';
+
+describe('parseTemplate', () => {
+  it('records each variable with the line it is first used on', () => {
+    const { variables, errors } = parseTemplate('Hi {{name}},\n{{#if deficit}}{{deficit}} to go{{/if}}\n{{ name }}');
+    expect(errors).toEqual([]);
+    expect(Array.from(variables)).toEqual([['name', 1], ['deficit', 2]]);
+  });
+
+  it('lists every tag in source order', () => {
+    const { tags } = parseTemplate('{{#if role}}{{ role }}{{else}}member{{/if}}');
+    expect(tags.map(({ tag }) => tag)).toEqual(['#if role', 'role', 'else', '/if']);
+  });
+
+  it('reports unclosed and unmatched blocks with their lines', () => {
+    expect(parseTemplate('a\n{{#if name}}b').errors).toEqual([{ line: 2, message: '{{#if name}} is never closed with {{/if}}.' }]);
+    expect(parseTemplate('{{/if}}').errors).toEqual([{ line: 1, message: '{{/if}} without a matching {{#if}}.' }]);
+    expect(parseTemplate('{{else}}').errors).toEqual([{ line: 1, message: '{{else}} without a matching {{#if}}.' }]);
+    expect(parseTemplate('{{#if name}}{{else}}{{else}}{{/if}}').errors).toEqual([{ line: 1, message: 'Only one {{else}} is allowed per {{#if}}.' }]);
+  });
+
+  it('rejects placeholders that are not variable names', () => {
+    expect(parseTemplate('{{first name}}').errors).toEqual([{ line: 1, message: "Unrecognised placeholder '{{first name}}'." }]);
+    expect(parseTemplate('{{#if 1st}}{{/if}}').errors).toEqual([{ line: 1, message: "'1st' is not a valid variable name." }]);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('fills variables and leaves missing ones empty', () => {
+    expect(renderTemplate('Hi {{name}}, {{activityCount}}/{{threshold}}{{role}}', { name: 'Ann', activityCount: 2, threshold: 5 })).toBe('Hi Ann, 2/5');
+  });
+
+  it('HTML-escapes values unless rendering plain text', () => {
+    const values = { name: `<script>"O'Neil" & co</script>` };
+    expect(renderTemplate('{{name}}', values)).toBe('&lt;script&gt;&quot;O&#39;Neil&quot; &amp; co&lt;/script&gt;');
+    expect(renderTemplate('{{name}}', values, { plainText: true })).toBe(values.name);
+  });
+
+  it('does not escape the template text itself', () => {
+    expect(renderTemplate('<b>{{name}}</b>', { name: 'Ann' })).toBe('<b>Ann</b>');
+  });
+
+  it('keeps a conditional section only for non-empty, non-zero values', () => {
+    const template = '{{#if deficit}}{{deficit}} more{{else}}on track{{/if}}';
+    expect(renderTemplate(template, { deficit: 3 })).toBe('3 more');
+    expect(renderTemplate(template, { deficit: 0 })).toBe('on track');
+    expect(renderTemplate(template, { deficit: '' })).toBe('on track');
+    expect(renderTemplate(template, { deficit: null })).toBe('on track');
+    expect(renderTemplate(template, {})).toBe('on track');
+  });
+
+  it('renders nested conditionals', () => {
+    const template = '{{#if role}}{{role}}{{#if deficit}} ({{deficit}}){{/if}}{{/if}}';
+    expect(renderTemplate(template, { role: 'Executive', deficit: 2 })).toBe('Executive (2)');
+    expect(renderTemplate(template, { role: 'Executive', deficit: 0 })).toBe('Executive');
+    expect(renderTemplate(template, { deficit: 2 })).toBe('');
+  });
+
+  it('does not re-parse placeholders inside values', () => {
+    expect(renderTemplate('{{name}}', { name: '{{threshold}}', threshold: 5 }, { plainText: true })).toBe('{{threshold}}');
+  });
+
+  it('throws on syntax errors', () => {
+    expect(() => renderTemplate('line\n{{#if name}}', { name: 'Ann' })).toThrow('Template syntax error on line 2');
+  });
+});
+
+describe('escapeHtml', () => {
+  it('escapes the five HTML-significant characters', () => {
+    expect(escapeHtml(`&<>"'`)).toBe('&amp;&lt;&gt;&quot;&#39;');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Placeholder syntax for email templates and subjects:
+ *   {{variable}}                              the value, HTML-escaped unless rendering plain text
+ *   {{#if variable}}...{{else}}...{{/if}}     a section kept only when the value is non-empty and not zero
+ * Templates are compiled with MJML once and the placeholders filled per member. MJML keeps placeholders inside
+ * text blocks and attributes but silently drops text between block elements, so the compiled HTML is re-parsed
+ * and compared with the source (see `tags`) before a template is used.
+ */
+
+export type TemplateValue = string | number | null | undefined;
+
+export interface TemplateSyntaxError {
+  line: number;
+  message: string;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; line: number }
+  | { type: 'if'; name: string; line: number; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+export interface TemplateTag {
+  tag: string; // Trimmed placeholder contents, e.g. 'name', '#if deficit', 'else', '/if'
+  line: number;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  variables: Map<string, number>; // Variable name -> line it is first used on
+  tags: TemplateTag[]; // Every placeholder in source order
+  errors: TemplateSyntaxError[];
+}
+
+const TAG_PATTERN = /{{([^{}]*)}}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9]*$/;
+
+function lineAt(source: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (source.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+export function parseTemplate(source: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const variables = new Map<string, number>();
+  const tags: TemplateTag[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  // Open {{#if}} blocks; text and tags are appended to the innermost one's current branch
+  const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+  const current = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    return open ? (open.inElse ? open.node.otherwise : open.node.then) : root;
+  };
+  const recordVariable = (name: string, line: number) => {
+    if (!variables.has(name)) variables.set(name, line);
+  };
+
+  let lastIndex = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) current().push({ type: 'text', value: source.slice(lastIndex, index) });
+    lastIndex = index + match[0].length;
+
+    const line = lineAt(source, index);
+    const tag = match[1].trim();
+    tags.push({ tag, line });
+    const ifMatch = /^#if\s+(\S+)$/.exec(tag);
+
+    if (ifMatch) {
+      const name = ifMatch[1];
+      if (!VARIABLE_NAME_PATTERN.test(name)) {
+        errors.push({ line, message: `'${name}' is not a valid variable name.` });
+      }
+      recordVariable(name, line);
+      const node: Extract<TemplateNode, { type: 'if' }> = { type: 'if', name, line, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) {
+        errors.push({ line, message: open ? 'Only one {{else}} is allowed per {{#if}}.' : '{{else}} without a matching {{#if}}.' });
+      } else {
+        open.inElse = true;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) errors.push({ line, message: '{{/if}} without a matching {{#if}}.' });
+    } else if (VARIABLE_NAME_PATTERN.test(tag)) {
+      recordVariable(tag, line);
+      current().push({ type: 'variable', name: tag, line });
+    } else {
+      errors.push({ line, message: `Unrecognised placeholder '${match[0]}'.` });
+    }
+  }
+  if (lastIndex < source.length) current().push({ type: 'text', value: source.slice(lastIndex) });
+
+  stack.forEach(({ node }) => errors.push({ line: node.line, message: `{{#if ${node.name}}} is never closed with {{/if}}.` }));
+  return { nodes: root, variables, tags, errors };
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  return value !== null && value !== undefined && value !== '' && value !== 0;
+}
+
+function renderNodes(nodes: TemplateNode[], values: Record<string, TemplateValue>, escape: boolean): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = values[node.name];
+        const text = value === null || value === undefined ? '' : String(value);
+        return escape ? escapeHtml(text) : text;
+      }
+      case 'if':
+        return renderNodes(isTruthy(values[node.name]) ? node.then : node.otherwise, values, escape);
+    }
+  }).join('');
+}
+
+/**
+ * Renders a template with the given values. Values are HTML-escaped unless `plainText` is set (subject lines).
+ * Throws if the template has syntax errors; templates are validated before they are saved.
+ */
+export function renderTemplate(source: string, values: Record<string, TemplateValue>, options: { plainText?: boolean } = {}): string {
+  const { nodes, errors } = parseTemplate(source);
+  if (errors.length > 0) {
+    throw new Error(`Template syntax error on line ${errors[0].line}: ${errors[0].message}`);
+  }
+  return renderNodes(nodes, values, !options.plainText);
+}
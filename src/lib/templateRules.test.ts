@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { TemplateRule, TemplateRuleMatch } from '@prisma/client';
+import { normalizeMatchValue, sortTemplateRules, resolveTemplateRule, getStageTemplateIdentifier } from '@/lib/templateRules';
+import { ESCALATION_STAGES } from '@/lib/escalation';
+
+const rule = (matchType: TemplateRuleMatch, matchValue: string, templateIdentifier: string, precedence = 100): TemplateRule => ({
+  id: `${matchType}-${matchValue}`,
+  matchType,
+  matchValue: normalizeMatchValue(matchValue),
+  templateIdentifier,
+  precedence,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+});
+
+const resolve = (rules: TemplateRule[], role: string | null, tags: string[] = []) =>
+  resolveTemplateRule(sortTemplateRules(rules), role, tags)?.templateIdentifier ?? null;
+
+describe('resolveTemplateRule', () => {
+  it('lets the lower precedence number win between a role and a tag rule', () => {
+    const roleRule = rule(TemplateRuleMatch.ROLE, 'Executive', 'low_activity_executive', 10);
+    const tagRule = rule(TemplateRuleMatch.TAG, 'Introvert', 'low_activity_introvert', 20);
+    expect(resolve([tagRule, roleRule], 'Executive', ['Introvert'])).toBe('low_activity_executive');
+    expect(resolve([{ ...tagRule, precedence: 5 }, roleRule], 'Executive', ['Introvert'])).toBe('low_activity_introvert');
+  });
+
+  it('prefers a tag rule over a role rule on equal precedence', () => {
+    const rules = [
+      rule(TemplateRuleMatch.ROLE, 'Executive', 'low_activity_executive'),
+      rule(TemplateRuleMatch.TAG, 'Introvert', 'low_activity_introvert'),
+    ];
+    expect(resolve(rules, 'Executive', ['Introvert'])).toBe('low_activity_introvert');
+  });
+
+  it('breaks ties between two matching rules of the same type by match value', () => {
+    const rules = [
+      rule(TemplateRuleMatch.TAG, 'Mentor', 'low_activity_mentor'),
+      rule(TemplateRuleMatch.TAG, 'Introvert', 'low_activity_introvert'),
+    ];
+    expect(resolve(rules, null, ['Mentor', 'Introvert'])).toBe('low_activity_introvert');
+    expect(resolve([...rules].reverse(), null, ['Introvert', 'Mentor'])).toBe('low_activity_introvert');
+  });
+
+  it('ignores case and whitespace in roles and tags', () => {
+    const rules = [
+      rule(TemplateRuleMatch.ROLE, 'Senior  Executive', 'low_activity_senior_executive'),
+      rule(TemplateRuleMatch.TAG, 'night owl', 'low_activity_night_owl', 200),
+    ];
+    expect(resolve(rules, '  senior executive ')).toBe('low_activity_senior_executive');
+    expect(resolve(rules, 'Member', [' Night   OWL '])).toBe('low_activity_night_owl');
+  });
+
+  it('returns null when no rule matches', () => {
+    const rules = [rule(TemplateRuleMatch.ROLE, 'Executive', 'low_activity_executive')];
+    expect(resolve(rules, 'Alumni', ['Introvert'])).toBeNull();
+    expect(resolve(rules, null)).toBeNull();
+    expect(resolve([], 'Executive')).toBeNull();
+  });
+});
+
+describe('getStageTemplateIdentifier', () => {
+  const rules = [rule(TemplateRuleMatch.ROLE, 'Executive', 'low_activity_executive')];
+  const [firstWarning, ...escalations] = ESCALATION_STAGES;
+
+  it('uses the matching rule for the first warning', () => {
+    expect(getStageTemplateIdentifier(firstWarning, 'Executive', [], rules)).toBe('low_activity_executive');
+  });
+
+  it('has no default template for an unmatched first warning, so the member is reported instead', () => {
+    expect(getStageTemplateIdentifier(firstWarning, 'Alumni', [], rules)).toBeNull();
+  });
+
+  it("falls back to the stage's own template for escalations, whatever the rules say", () => {
+    escalations.forEach(stage => {
+      expect(getStageTemplateIdentifier(stage, 'Alumni', [], rules)).toBe(stage.templateIdentifier);
+      expect(getStageTemplateIdentifier(stage, 'Executive', [], rules)).toBe(stage.templateIdentifier);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { prisma } from '@/lib/prisma';
+import { TemplateRule, TemplateRuleMatch } from '@prisma/client';
+import { EscalationStage } from '@/lib/escalation';
+
+/**
+ * Normalizes a role or tag the same way for saving rules and matching members
+ * (case-insensitive, surrounding and repeated whitespace ignored).
+ */
+export function normalizeMatchValue(value: string | null | undefined): string {
+  return (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Loads every rule in the order they are tried: lowest precedence first.
+ * On equal precedence a tag rule wins over a role rule, since a tag is more specific to the member.
+ */
+export async function loadTemplateRules(): Promise<TemplateRule[]> {
+  const rules = await prisma.templateRule.findMany({ orderBy: [{ precedence: 'asc' }, { matchValue: 'asc' }] });
+  return sortTemplateRules(rules);
+}
+
+export function sortTemplateRules<T extends Pick<TemplateRule, 'precedence' | 'matchType' | 'matchValue'>>(rules: T[]): T[] {
+  const typeOrder = (type: TemplateRuleMatch) => type === TemplateRuleMatch.TAG ? 0 : 1;
+  return [...rules].sort((a, b) =>
+    a.precedence - b.precedence || typeOrder(a.matchType) - typeOrder(b.matchType) || a.matchValue.localeCompare(b.matchValue));
+}
+
+/**
+ * Picks the template for a member's first warning from the rules (already sorted, see loadTemplateRules).
+ * Returns null when no rule matches the member's role or tags.
+ */
+export function resolveTemplateRule(rules: TemplateRule[], role: string | null | undefined, tags: string[]): TemplateRule | null {
+  const normalizedRole = normalizeMatchValue(role);
+  const normalizedTags = new Set(tags.map(normalizeMatchValue));
+  return rules.find(rule =>
+    rule.matchType === TemplateRuleMatch.ROLE ? rule.matchValue === normalizedRole : normalizedTags.has(rule.matchValue)
+  ) ?? null;
+}
+
+/**
+ * The template for a member's warning at an escalation stage. Escalations use their stage's template;
+ * the first warning follows the rules and gets null when none matches, so the member is reported, not warned.
+ */
+export function getStageTemplateIdentifier(
+  stage: Pick<EscalationStage, 'templateIdentifier'>,
+  role: string | null | undefined,
+  tags: string[],
+  rules: TemplateRule[]
+): string | null {
+  return stage.templateIdentifier ?? resolveTemplateRule(rules, role, tags)?.templateIdentifier ?? null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { diffLines } from '@/lib/textDiff';
+
+describe('diffLines', () => {
+  it('marks every line the same for unchanged input', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([{ type: 'same', text: 'a' }, { type: 'same', text: 'b' }]);
+  });
+
+  it('marks an inserted line as added in place', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'added', text: 'b' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+
+  it('marks a deleted line as removed in place', () => {
+    expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'same', text: 'c' },
+    ]);
+  });
+
+  it('shows a changed line as removed before added', () => {
+    expect(diffLines('Hi {{name}}\nBye', 'Hello {{name}}\nBye')).toEqual([
+      { type: 'removed', text: 'Hi {{name}}' },
+      { type: 'added', text: 'Hello {{name}}' },
+      { type: 'same', text: 'Bye' },
+    ]);
+  });
+
+  it('treats empty input as having no lines', () => {
+    expect(diffLines('', '')).toEqual([]);
+    expect(diffLines('', 'a\nb')).toEqual([{ type: 'added', text: 'a' }, { type: 'added', text: 'b' }]);
+    expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }]);
+  });
+
+  it('keeps blank lines inside a text', () => {
+    expect(diffLines('a\n\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: '' },
+      { type: 'same', text: 'b' },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { verifySvixSignature } from '@/lib/webhookSignature';
+
+const KEY = Buffer.from('clubpulse-test-signing-key');
+const SECRET = `whsec_${KEY.toString('base64')}`;
+const NOW = new Date('2025-05-01T12:00:00Z');
+const TIMESTAMP = String(NOW.getTime() / 1000);
+const BODY = '{"type":"email.delivered","data":{"email_id":"abc"}}';
+
+const sign = (body: string, timestamp = TIMESTAMP, id = 'msg_1', key = KEY) =>
+  `v1,${createHmac('sha256', key).update(`${id}.${timestamp}.${body}`).digest('base64')}`;
+
+const headers = (signature: string, timestamp = TIMESTAMP) => ({ id: 'msg_1', timestamp, signature });
+
+describe('verifySvixSignature', () => {
+  it('accepts a valid signature', () => {
+    expect(verifySvixSignature(SECRET, headers(sign(BODY)), BODY, NOW)).toEqual({ valid: true });
+  });
+
+  it('accepts a secret without the whsec_ prefix', () => {
+    expect(verifySvixSignature(KEY.toString('base64'), headers(sign(BODY)), BODY, NOW)).toEqual({ valid: true });
+  });
+
+  it('rejects a tampered body', () => {
+    const check = verifySvixSignature(SECRET, headers(sign(BODY)), BODY.replace('delivered', 'bounced'), NOW);
+    expect(check).toEqual({ valid: false, reason: 'No matching signature.' });
+  });
+
+  it('rejects a signature made with another secret', () => {
+    const check = verifySvixSignature(SECRET, headers(sign(BODY, TIMESTAMP, 'msg_1', Buffer.from('other-key'))), BODY, NOW);
+    expect(check.valid).toBe(false);
+  });
+
+  it('rejects a signature moved to another message id', () => {
+    const check = verifySvixSignature(SECRET, { ...headers(sign(BODY)), id: 'msg_2' }, BODY, NOW);
+    expect(check.valid).toBe(false);
+  });
+
+  it('accepts any matching entry among several (secret rotation)', () => {
+    const oldSignature = sign(BODY, TIMESTAMP, 'msg_1', Buffer.from('old-key'));
+    expect(verifySvixSignature(SECRET, headers(`${oldSignature} ${sign(BODY)}`), BODY, NOW)).toEqual({ valid: true });
+  });
+
+  it('ignores entries with another scheme version', () => {
+    const check = verifySvixSignature(SECRET, headers(sign(BODY).replace('v1,', 'v2,')), BODY, NOW);
+    expect(check).toEqual({ valid: false, reason: 'No matching signature.' });
+  });
+
+  it('accepts timestamps within five minutes either way', () => {
+    for (const offset of [-300, 300]) {
+      const timestamp = String(Number(TIMESTAMP) + offset);
+      expect(verifySvixSignature(SECRET, headers(sign(BODY, timestamp), timestamp), BODY, NOW)).toEqual({ valid: true });
+    }
+  });
+
+  it('rejects timestamps outside the tolerance window', () => {
+    for (const offset of [-301, 301]) {
+      const timestamp = String(Number(TIMESTAMP) + offset);
+      expect(verifySvixSignature(SECRET, headers(sign(BODY, timestamp), timestamp), BODY, NOW))
+        .toEqual({ valid: false, reason: 'Signature timestamp is outside the allowed window.' });
+    }
+  });
+
+  it('rejects missing headers and malformed timestamps', () => {
+    expect(verifySvixSignature(SECRET, { id: null, timestamp: TIMESTAMP, signature: sign(BODY) }, BODY, NOW).valid).toBe(false);
+    expect(verifySvixSignature(SECRET, headers(sign(BODY), 'yesterday'), BODY, NOW))
+      .toEqual({ valid: false, reason: 'Invalid svix-timestamp header.' });
+  });
+});
@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Requests signed longer ago than this (or this far in the future) are rejected as replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export type SignatureCheck = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Verifies a Svix-style webhook signature (used by Resend).
+ * The signed content is `${svix-id}.${svix-timestamp}.${raw body}`, signed with HMAC-SHA256
+ * using the base64 part of the `whsec_...` secret. The svix-signature header holds one or
+ * more space-separated `v1,<base64 signature>` entries (several while a secret is rotated).
+ */
+export function verifySvixSignature(
+  secret: string,
+  headers: { id: string | null; timestamp: string | null; signature: string | null },
+  rawBody: string,
+  now: Date = new Date()
+): SignatureCheck {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    return { valid: false, reason: 'Missing svix-id, svix-timestamp or svix-signature header.' };
+  }
+
+  const timestampSeconds = Number(timestamp);
+  if (!Number.isInteger(timestampSeconds)) {
+    return { valid: false, reason: 'Invalid svix-timestamp header.' };
+  }
+  if (Math.abs(now.getTime() / 1000 - timestampSeconds) > SIGNATURE_TOLERANCE_SECONDS) {
+    return { valid: false, reason: 'Signature timestamp is outside the allowed window.' };
+  }
+
+  const key = Buffer.from(secret.startsWith('whsec_') ? secret.slice('whsec_'.length) : secret, 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${rawBody}`).digest();
+
+  const matches = signature.split(' ').some(entry => {
+    const [version, value] = entry.split(',');
+    if (version !== 'v1' || !value) return false;
+    const received = Buffer.from(value, 'base64');
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+  return matches ? { valid: true } : { valid: false, reason: 'No matching signature.' };
+}